@@ -0,0 +1,105 @@
+import java.io.BufferedReader;
+import java.io.ByteArrayOutputStream;
+import java.io.FileDescriptor;
+import java.io.FileOutputStream;
+import java.io.InputStreamReader;
+import java.io.PrintStream;
+import java.lang.reflect.InvocationTargetException;
+import java.lang.reflect.Method;
+import java.nio.charset.StandardCharsets;
+import java.util.Arrays;
+
+/**
+ * Long-running Kick Assembler host used by the C64 VS Code extension to avoid
+ * JVM startup on every build. Started with
+ *
+ *   java [-Djava.security.manager=allow] -cp KickAss.jar KickAssHost.java
+ *
+ * Protocol (UTF-8, one message per line, NUL separates fields):
+ *   request:  <id> NUL <arg> NUL <arg> ...
+ *   response: the assembler output, then a line NUL <id> SPACE <exit code>
+ * On startup the host prints NUL READY, or NUL ERROR <message> and exits.
+ */
+public class KickAssHost {
+    /** Thrown instead of terminating the JVM when Kick Assembler calls System.exit. */
+    static class ExitTrap extends SecurityException {
+        final int status;
+
+        ExitTrap(int status) {
+            super("System.exit(" + status + ")");
+            this.status = status;
+        }
+    }
+
+    @SuppressWarnings("removal")
+    static void installExitTrap() {
+        System.setSecurityManager(new SecurityManager() {
+            @Override
+            public void checkExit(int status) {
+                throw new ExitTrap(status);
+            }
+
+            @Override
+            public void checkPermission(java.security.Permission perm) {
+                // Allow everything else
+            }
+        });
+    }
+
+    public static void main(String[] args) throws Exception {
+        PrintStream protocol = new PrintStream(new FileOutputStream(FileDescriptor.out), true, "UTF-8");
+        BufferedReader in = new BufferedReader(new InputStreamReader(System.in, StandardCharsets.UTF_8));
+
+        Method kickassMain;
+        try {
+            kickassMain = Class.forName("kickass.KickAssembler").getMethod("main", String[].class);
+            installExitTrap();
+        } catch (Throwable t) {
+            protocol.println("\0ERROR " + t);
+            return;
+        }
+        protocol.println("\0READY");
+
+        String line;
+        while ((line = in.readLine()) != null) {
+            String[] parts = line.split("\0", -1);
+            String id = parts[0];
+            String[] buildArgs = Arrays.copyOfRange(parts, 1, parts.length);
+
+            ByteArrayOutputStream captured = new ByteArrayOutputStream();
+            PrintStream capture = new PrintStream(captured, true, "UTF-8");
+            PrintStream oldOut = System.out;
+            PrintStream oldErr = System.err;
+            System.setOut(capture);
+            System.setErr(capture);
+
+            int exitCode = 0;
+            try {
+                kickassMain.invoke(null, (Object) buildArgs);
+            } catch (InvocationTargetException e) {
+                Throwable cause = e.getCause();
+                if (cause instanceof ExitTrap) {
+                    exitCode = ((ExitTrap) cause).status;
+                } else {
+                    cause.printStackTrace(capture);
+                    exitCode = 1;
+                }
+            } catch (Throwable t) {
+                t.printStackTrace(capture);
+                exitCode = 1;
+            } finally {
+                System.setOut(oldOut);
+                System.setErr(oldErr);
+            }
+
+            capture.flush();
+            String output = new String(captured.toByteArray(), StandardCharsets.UTF_8).replace('\0', ' ');
+            protocol.print(output);
+            if (!output.isEmpty() && !output.endsWith("\n")) {
+                protocol.println();
+            }
+            protocol.println("\0" + id + " " + exitCode);
+            protocol.flush();
+        }
+    }
+}
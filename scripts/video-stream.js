@@ -0,0 +1,112 @@
+#!/usr/bin/env node
+// Record and replay the Ultimate 64 video stream, for testing the video
+// viewer without a device.
+//
+//   node scripts/video-stream.js record <file> [port]
+//       Save every packet arriving on the UDP port (default 11000).
+//       Start the stream first, e.g. from the video viewer. Ctrl+C stops.
+//
+//   node scripts/video-stream.js replay <file> [host[:port]] [--loop]
+//       Send a recording to the viewer (default localhost:11000) at 50 frames
+//       per second.
+//
+// A recording is the raw packets, each prefixed with its length (u16 LE).
+
+'use strict';
+
+const dgram = require('dgram');
+const fs = require('fs');
+
+const DEFAULT_PORT = 11000;
+const FRAME_INTERVAL_MS = 20;
+const LAST_PACKET = 0x8000;
+
+function usage() {
+    console.error('Usage: video-stream.js record <file> [port]');
+    console.error('       video-stream.js replay <file> [host[:port]] [--loop]');
+    process.exit(1);
+}
+
+function record(file, port) {
+    const out = fs.createWriteStream(file);
+    const socket = dgram.createSocket('udp4');
+    let packets = 0;
+
+    socket.on('message', packet => {
+        const length = Buffer.alloc(2);
+        length.writeUInt16LE(packet.length);
+        out.write(length);
+        out.write(packet);
+        packets++;
+    });
+    socket.bind(port, () => console.log(`Recording UDP port ${port} to ${file}, Ctrl+C to stop`));
+
+    process.on('SIGINT', () => {
+        socket.close();
+        out.end(() => {
+            console.log(`\n${packets} packets recorded`);
+            process.exit(0);
+        });
+    });
+}
+
+function readPackets(file) {
+    const data = fs.readFileSync(file);
+    const packets = [];
+    let offset = 0;
+    while (offset + 2 <= data.length) {
+        const length = data.readUInt16LE(offset);
+        offset += 2;
+        if (offset + length > data.length) {
+            break;
+        }
+        packets.push(data.subarray(offset, offset + length));
+        offset += length;
+    }
+    return packets;
+}
+
+async function replay(file, target, loop) {
+    const [host, port] = target.split(':');
+    const packets = readPackets(file);
+    if (packets.length === 0) {
+        console.error(`No packets in ${file}`);
+        process.exit(1);
+    }
+
+    const socket = dgram.createSocket('udp4');
+    const send = packet => new Promise((resolve, reject) => {
+        socket.send(packet, Number(port) || DEFAULT_PORT, host || 'localhost', error => error ? reject(error) : resolve());
+    });
+    const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+    console.log(`Replaying ${packets.length} packets to ${host || 'localhost'}:${Number(port) || DEFAULT_PORT}`);
+    do {
+        let frameStart = Date.now();
+        for (const packet of packets) {
+            await send(packet);
+            // Pace by frame: wait after the last packet of each one
+            if (packet.length >= 6 && packet.readUInt16LE(4) & LAST_PACKET) {
+                await sleep(Math.max(0, frameStart + FRAME_INTERVAL_MS - Date.now()));
+                frameStart = Date.now();
+            }
+        }
+    } while (loop);
+    socket.close();
+}
+
+const [command, file, ...rest] = process.argv.slice(2);
+if (!file) {
+    usage();
+}
+if (command === 'record') {
+    record(file, Number(rest[0]) || DEFAULT_PORT);
+} else if (command === 'replay') {
+    const loop = rest.includes('--loop');
+    replay(file, rest.find(arg => arg !== '--loop') || '', loop).catch(error => {
+        console.error(error.message);
+        process.exit(1);
+    });
+} else {
+    usage();
+}
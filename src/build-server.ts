@@ -0,0 +1,249 @@
+import * as vscode from 'vscode';
+import * as child_process from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+
+export interface HostBuildResult {
+    output: string;
+    exitCode: number;
+}
+
+interface PendingBuild {
+    id: number;
+    output: string[];
+    resolve: (result: HostBuildResult) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Keeps a Kick Assembler JVM alive between builds (resources/KickAssHost.java)
+ * and sends it build requests over stdio. Builds are serialized; the host is
+ * restarted on the next build after it crashes or the JAR path changes.
+ * The host runs in the build's working directory, so relative paths resolve
+ * as in a one-shot build; a build in another directory restarts it there.
+ */
+export class KickassBuildServer implements vscode.Disposable {
+    private process: child_process.ChildProcess | undefined;
+    private ready: Promise<void> | undefined;
+    private jarPath: string | undefined;
+    private cwd: string | undefined;
+    private pending: PendingBuild | undefined;
+    private queue: Promise<unknown> = Promise.resolve();
+    private nextId = 1;
+    private buffer = '';
+    private configListener: vscode.Disposable;
+
+    constructor(private extensionPath: string, private log: (line: string) => void) {
+        this.configListener = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('c64.kickassJarPath') || e.affectsConfiguration('c64.buildServer.enabled')) {
+                this.stop();
+                this.warmUp();
+            }
+        });
+        this.warmUp();
+    }
+
+    /**
+     * Start the host in the background when enabled, so the first build
+     * doesn't pay for JVM startup either.
+     */
+    private warmUp(): void {
+        const config = vscode.workspace.getConfiguration('c64');
+        const kickassJarPath = config.get<string>('kickassJarPath');
+        const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!config.get<boolean>('buildServer.enabled', false) || !kickassJarPath || !fs.existsSync(kickassJarPath) || !cwd) {
+            return;
+        }
+        this.start(kickassJarPath, cwd).catch((error) => {
+            this.log(error instanceof Error ? error.message : String(error));
+        });
+    }
+
+    /**
+     * Run Kick Assembler with the given arguments (without `java -jar`) in
+     * the given working directory. Rejects when the host cannot be started
+     * or dies during the build.
+     */
+    build(kickassJarPath: string, cwd: string, args: string[], token?: vscode.CancellationToken): Promise<HostBuildResult> {
+        const run = this.queue.then(() => this.runBuild(kickassJarPath, cwd, args, token));
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async runBuild(kickassJarPath: string, cwd: string, args: string[], token?: vscode.CancellationToken): Promise<HostBuildResult> {
+        if (this.jarPath !== kickassJarPath || (this.cwd !== undefined && path.resolve(this.cwd) !== path.resolve(cwd))) {
+            this.stop();
+        }
+        await this.start(kickassJarPath, cwd);
+
+        return new Promise((resolve, reject) => {
+            const id = this.nextId++;
+            const timeout = setTimeout(() => {
+                // Same limit as a one-shot build; a hung assembler takes the host with it
+                this.fail(new BuildTimeoutError(this.pending?.output.join('\n') ?? ''));
+            }, 60000);
+            const cancellation = token?.onCancellationRequested(() => this.fail(new Error('Assembly cancelled')));
+
+            this.pending = {
+                id,
+                output: [],
+                resolve: (result) => {
+                    clearTimeout(timeout);
+                    cancellation?.dispose();
+                    resolve(result);
+                },
+                reject: (error) => {
+                    clearTimeout(timeout);
+                    cancellation?.dispose();
+                    reject(error);
+                }
+            };
+            this.process?.stdin?.write([String(id), ...args].join('\0') + '\n');
+        });
+    }
+
+    private start(kickassJarPath: string, cwd: string): Promise<void> {
+        if (this.ready) {
+            return this.ready;
+        }
+
+        this.jarPath = kickassJarPath;
+        this.cwd = cwd;
+        this.ready = this.spawnHost(kickassJarPath, cwd, true).catch((error) => {
+            // Java 11 does not know -Djava.security.manager=allow, which
+            // Java 18+ requires to trap System.exit; try once without it
+            if (error instanceof HostStartError && error.retryWithoutFlag) {
+                return this.spawnHost(kickassJarPath, cwd, false);
+            }
+            throw error;
+        }).catch((error) => {
+            this.ready = undefined;
+            throw error;
+        });
+        return this.ready;
+    }
+
+    private spawnHost(kickassJarPath: string, cwd: string, allowSecurityManager: boolean): Promise<void> {
+        const hostSource = path.join(this.extensionPath, 'resources', 'KickAssHost.java');
+        const args = [
+            ...(allowSecurityManager ? ['-Djava.security.manager=allow'] : []),
+            '-cp', kickassJarPath,
+            hostSource
+        ];
+
+        return new Promise((resolve, reject) => {
+            const started = Date.now();
+            const proc = child_process.spawn('java', args, { cwd });
+            this.process = proc;
+            this.buffer = '';
+
+            let stderr = '';
+            let settled = false;
+            const settle = (error?: Error) => {
+                if (!settled) {
+                    settled = true;
+                    if (error) {
+                        reject(error);
+                    } else {
+                        this.log(`Build server started in ${Date.now() - started} ms`);
+                        resolve();
+                    }
+                }
+            };
+
+            // Writes to a host that just died are reported through 'exit'
+            proc.stdin?.on('error', () => undefined);
+            proc.stdout?.setEncoding('utf-8');
+            proc.stdout?.on('data', (chunk: string) => this.onData(chunk, settle));
+            proc.stderr?.on('data', (chunk: Buffer) => {
+                stderr += chunk.toString();
+            });
+            proc.on('error', (error) => settle(new HostStartError(`Failed to start Java: ${error.message}`, false)));
+            proc.on('exit', (code) => {
+                if (this.process === proc) {
+                    this.process = undefined;
+                    if (settled) {
+                        // Crashed after startup: restart with the next build
+                        this.ready = undefined;
+                        this.log(`Build server exited unexpectedly (exit code ${code})`);
+                    }
+                }
+                const detail = stderr.trim() || `exit code ${code}`;
+                settle(new HostStartError(`Build server failed to start: ${detail}`, allowSecurityManager));
+                if (this.pending) {
+                    const pending = this.pending;
+                    this.pending = undefined;
+                    pending.reject(new Error(`Build server exited: ${detail}`));
+                }
+            });
+        });
+    }
+
+    private onData(chunk: string, settle: (error?: Error) => void): void {
+        this.buffer += chunk;
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop() ?? '';
+
+        for (const rawLine of lines) {
+            const line = rawLine.replace(/\r$/, '');
+            if (!line.startsWith('\0')) {
+                this.pending?.output.push(line);
+                continue;
+            }
+
+            // Control line from the host
+            const control = line.substring(1);
+            if (control === 'READY') {
+                settle();
+            } else if (control.startsWith('ERROR ')) {
+                settle(new HostStartError(`Build server failed to start: ${control.substring(6)}`, false));
+            } else {
+                const [id, exitCode] = control.split(' ');
+                if (this.pending && Number(id) === this.pending.id) {
+                    const pending = this.pending;
+                    this.pending = undefined;
+                    pending.resolve({ output: pending.output.join('\n'), exitCode: Number(exitCode) });
+                }
+            }
+        }
+    }
+
+    /** Abort the running build by killing the host; it restarts on the next build. */
+    private fail(error: Error): void {
+        const pending = this.pending;
+        this.pending = undefined;
+        this.stop();
+        pending?.reject(error);
+    }
+
+    stop(): void {
+        if (this.process) {
+            this.process.kill();
+            this.process = undefined;
+        }
+        this.ready = undefined;
+        this.cwd = undefined;
+    }
+
+    dispose(): void {
+        this.configListener.dispose();
+        this.stop();
+    }
+}
+
+/**
+ * The build did not finish within 60 seconds. Unlike a host that failed,
+ * this is the build's own result and not retried in a new Java process.
+ */
+export class BuildTimeoutError extends Error {
+    constructor(public readonly output: string) {
+        super('Assembly timeout - build server exceeded 60 seconds');
+        this.name = 'BuildTimeoutError';
+    }
+}
+
+class HostStartError extends Error {
+    constructor(message: string, public readonly retryWithoutFlag: boolean) {
+        super(message);
+    }
+}
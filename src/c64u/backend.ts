@@ -0,0 +1,320 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { executeC64UOrThrow } from './cli';
+import { C64URestClient, C64URestError, DiskImageType, DriveId, MachineAction, MountMode, StreamName } from './rest-client';
+import { C64UDevice, getActiveDevice } from './devices';
+
+export type C64UBackendKind = 'rest' | 'cli';
+
+/**
+ * Operations on the C64 Ultimate that are available both through the REST
+ * API and the c64u CLI. Failures throw a C64URestError or C64UCliError, both
+ * carrying a `status` code when the device reported one.
+ */
+export interface C64UBackend {
+    readonly kind: C64UBackendKind;
+    /** Check that the device answers; resolves to its firmware or API version. */
+    ping(token?: vscode.CancellationToken): Promise<string>;
+    /** One-line description of the device, e.g. product and firmware version. */
+    describe(token?: vscode.CancellationToken): Promise<string>;
+    machine(action: MachineAction, token?: vscode.CancellationToken): Promise<void>;
+    /** Read C64 memory through DMA; works while the machine is running or paused. */
+    readMemory(address: number, length: number, token?: vscode.CancellationToken): Promise<Buffer>;
+    writeMemory(address: number, data: Buffer, token?: vscode.CancellationToken): Promise<void>;
+    /** Send a data stream to a UDP host:port (Ultimate 64 only). */
+    startStream(stream: StreamName, target: string, token?: vscode.CancellationToken): Promise<void>;
+    stopStream(stream: StreamName, token?: vscode.CancellationToken): Promise<void>;
+    runPrg(remotePath: string, token?: vscode.CancellationToken): Promise<void>;
+    runCrt(remotePath: string, token?: vscode.CancellationToken): Promise<void>;
+    /** Run a local PRG on the Ultimate. */
+    runLocalPrg(localPath: string, token?: vscode.CancellationToken): Promise<void>;
+    runLocalCrt(localPath: string, token?: vscode.CancellationToken): Promise<void>;
+    /** Play a SID; the song number is 1-based, the file's default song when omitted. */
+    playSid(remotePath: string, song?: number, token?: vscode.CancellationToken): Promise<void>;
+    playLocalSid(localPath: string, song?: number, token?: vscode.CancellationToken): Promise<void>;
+    /** Play an Amiga MOD; fails on firmware without the MOD player. */
+    playMod(remotePath: string, token?: vscode.CancellationToken): Promise<void>;
+    playLocalMod(localPath: string, token?: vscode.CancellationToken): Promise<void>;
+    mount(drive: DriveId, imagePath: string, type: string, mode: MountMode, token?: vscode.CancellationToken): Promise<void>;
+    /** Mount a local disk image, typed by its extension. */
+    mountLocal(drive: DriveId, localPath: string, mode: MountMode, token?: vscode.CancellationToken): Promise<void>;
+    unmount(drive: DriveId, token?: vscode.CancellationToken): Promise<void>;
+    createDiskImage(
+        remotePath: string,
+        type: DiskImageType | 'g64',
+        diskName: string,
+        tracks?: number,
+        token?: vscode.CancellationToken
+    ): Promise<void>;
+    /** Human readable description of a file on the Ultimate. */
+    fileInfo(remotePath: string, token?: vscode.CancellationToken): Promise<string>;
+}
+
+/**
+ * REST client for a device, by default the active one.
+ */
+export function createRestClient(device: C64UDevice = getActiveDevice()): C64URestClient {
+    const config = vscode.workspace.getConfiguration('c64u');
+    return new C64URestClient({
+        host: device.host,
+        port: device.port || 80,
+        password: device.password,
+        timeoutMs: config.get<number>('timeoutMs', 10000)
+    });
+}
+
+/**
+ * Backend selected by c64u.backend, talking to the given or the active device.
+ */
+export function getC64UBackend(device: C64UDevice = getActiveDevice()): C64UBackend {
+    const kind = vscode.workspace.getConfiguration('c64u').get<C64UBackendKind>('backend', 'rest');
+    return kind === 'cli' ? new CliBackend(device) : new RestBackend(createRestClient(device), device);
+}
+
+class RestBackend implements C64UBackend {
+    readonly kind = 'rest';
+    // The REST API cannot create G64 images
+    private cli: CliBackend;
+
+    constructor(private client: C64URestClient, device: C64UDevice) {
+        this.cli = new CliBackend(device);
+    }
+
+    async ping(token?: vscode.CancellationToken): Promise<string> {
+        const info = await withSignal(token, signal => this.client.version({ signal }));
+        return info.version;
+    }
+
+    async describe(token?: vscode.CancellationToken): Promise<string> {
+        try {
+            const info = await withSignal(token, signal => this.client.info({ signal }));
+            return `${info.product} ${info.firmware_version}`;
+        } catch (error) {
+            // /v1/info came after /v1/version; older firmware only has the API version
+            if (error instanceof C64URestError && error.status === 404) {
+                return `REST API ${await this.ping(token)}`;
+            }
+            throw error;
+        }
+    }
+
+    async machine(action: MachineAction, token?: vscode.CancellationToken): Promise<void> {
+        await withSignal(token, signal => this.client.machine(action, { signal }));
+    }
+
+    async readMemory(address: number, length: number, token?: vscode.CancellationToken): Promise<Buffer> {
+        return withSignal(token, signal => this.client.readMemory(address, length, { signal }));
+    }
+
+    async writeMemory(address: number, data: Buffer, token?: vscode.CancellationToken): Promise<void> {
+        await withSignal(token, signal => this.client.writeMemory(address, data, { signal }));
+    }
+
+    async startStream(stream: StreamName, target: string, token?: vscode.CancellationToken): Promise<void> {
+        await withSignal(token, signal => this.client.startStream(stream, target, { signal }));
+    }
+
+    async stopStream(stream: StreamName, token?: vscode.CancellationToken): Promise<void> {
+        await withSignal(token, signal => this.client.stopStream(stream, { signal }));
+    }
+
+    async runPrg(remotePath: string, token?: vscode.CancellationToken): Promise<void> {
+        await withSignal(token, signal => this.client.runPrg(remotePath, { signal }));
+    }
+
+    async runCrt(remotePath: string, token?: vscode.CancellationToken): Promise<void> {
+        await withSignal(token, signal => this.client.runCrt(remotePath, { signal }));
+    }
+
+    async runLocalPrg(localPath: string, token?: vscode.CancellationToken): Promise<void> {
+        // Sent with the request, nothing is stored on the Ultimate
+        const data = await fs.promises.readFile(localPath);
+        await withSignal(token, signal => this.client.runPrgData(data, { signal }));
+    }
+
+    async runLocalCrt(localPath: string, token?: vscode.CancellationToken): Promise<void> {
+        const data = await fs.promises.readFile(localPath);
+        await withSignal(token, signal => this.client.runCrtData(data, { signal }));
+    }
+
+    async playSid(remotePath: string, song?: number, token?: vscode.CancellationToken): Promise<void> {
+        await withSignal(token, signal => this.client.sidPlay(remotePath, song, { signal }));
+    }
+
+    async playLocalSid(localPath: string, song?: number, token?: vscode.CancellationToken): Promise<void> {
+        const data = await fs.promises.readFile(localPath);
+        await withSignal(token, signal => this.client.sidPlayData(data, song, { signal }));
+    }
+
+    async playMod(remotePath: string, token?: vscode.CancellationToken): Promise<void> {
+        await withSignal(token, signal => this.client.modPlay(remotePath, { signal }));
+    }
+
+    async playLocalMod(localPath: string, token?: vscode.CancellationToken): Promise<void> {
+        const data = await fs.promises.readFile(localPath);
+        await withSignal(token, signal => this.client.modPlayData(data, { signal }));
+    }
+
+    async mount(drive: DriveId, imagePath: string, type: string, mode: MountMode, token?: vscode.CancellationToken): Promise<void> {
+        await withSignal(token, signal => this.client.mount(drive, imagePath, type, mode, { signal }));
+    }
+
+    async mountLocal(drive: DriveId, localPath: string, mode: MountMode, token?: vscode.CancellationToken): Promise<void> {
+        const data = await fs.promises.readFile(localPath);
+        await withSignal(token, signal => this.client.mountData(drive, data, imageType(localPath), mode, { signal }));
+    }
+
+    async unmount(drive: DriveId, token?: vscode.CancellationToken): Promise<void> {
+        await withSignal(token, signal => this.client.unmount(drive, { signal }));
+    }
+
+    async createDiskImage(
+        remotePath: string,
+        type: DiskImageType | 'g64',
+        diskName: string,
+        tracks?: number,
+        token?: vscode.CancellationToken
+    ): Promise<void> {
+        if (type === 'g64') {
+            await this.cli.createDiskImage(remotePath, type, diskName, tracks);
+            return;
+        }
+        await withSignal(token, signal => this.client.createDiskImage(remotePath, type, diskName, tracks, { signal }));
+    }
+
+    async fileInfo(remotePath: string, token?: vscode.CancellationToken): Promise<string> {
+        const info = await withSignal(token, signal => this.client.fileInfo(remotePath, { signal }));
+        return `${info.filename}: ${info.size} bytes (${info.extension.toUpperCase()})`;
+    }
+}
+
+class CliBackend implements C64UBackend {
+    readonly kind = 'cli';
+
+    constructor(private device: C64UDevice) {}
+
+    async ping(token?: vscode.CancellationToken): Promise<string> {
+        return withSignal(token, signal => this.exec(['about'], signal));
+    }
+
+    async describe(token?: vscode.CancellationToken): Promise<string> {
+        return (await this.ping(token)).split('\n')[0].trim();
+    }
+
+    async machine(action: MachineAction): Promise<void> {
+        await this.exec(['machine', action]);
+    }
+
+    async readMemory(): Promise<Buffer> {
+        throw new Error('Memory access needs the REST backend (set c64u.backend to "rest")');
+    }
+
+    async writeMemory(): Promise<void> {
+        throw new Error('Memory access needs the REST backend (set c64u.backend to "rest")');
+    }
+
+    async startStream(): Promise<void> {
+        throw new Error('Data streams need the REST backend (set c64u.backend to "rest")');
+    }
+
+    async stopStream(): Promise<void> {
+        throw new Error('Data streams need the REST backend (set c64u.backend to "rest")');
+    }
+
+    async runPrg(remotePath: string): Promise<void> {
+        await this.exec(['runners', 'run-prg', remotePath]);
+    }
+
+    async runCrt(remotePath: string): Promise<void> {
+        await this.exec(['runners', 'run-crt', remotePath]);
+    }
+
+    async runLocalPrg(localPath: string): Promise<void> {
+        const remotePath = `/Temp/${path.basename(localPath)}`;
+        await this.exec(['fs', 'upload', localPath, remotePath]);
+        await this.exec(['runners', 'run-prg', remotePath]);
+    }
+
+    async runLocalCrt(localPath: string): Promise<void> {
+        await this.runCrt(await this.uploadToTemp(localPath));
+    }
+
+    async playSid(remotePath: string, song?: number): Promise<void> {
+        const args = ['runners', 'sidplay', remotePath];
+        if (song !== undefined) {
+            args.push('--song', String(song));
+        }
+        await this.exec(args);
+    }
+
+    async playLocalSid(localPath: string, song?: number): Promise<void> {
+        await this.playSid(await this.uploadToTemp(localPath), song);
+    }
+
+    async playMod(remotePath: string): Promise<void> {
+        await this.exec(['runners', 'modplay', remotePath]);
+    }
+
+    async playLocalMod(localPath: string): Promise<void> {
+        await this.playMod(await this.uploadToTemp(localPath));
+    }
+
+    async mount(drive: DriveId, imagePath: string, type: string, mode: MountMode): Promise<void> {
+        await this.exec(['drives', 'mount', drive, imagePath, '--type', type, '--mode', mode]);
+    }
+
+    async mountLocal(drive: DriveId, localPath: string, mode: MountMode): Promise<void> {
+        await this.mount(drive, await this.uploadToTemp(localPath), imageType(localPath), mode);
+    }
+
+    async unmount(drive: DriveId): Promise<void> {
+        await this.exec(['drives', 'unmount', drive]);
+    }
+
+    async createDiskImage(remotePath: string, type: DiskImageType | 'g64', diskName: string, tracks?: number): Promise<void> {
+        const args = ['files', `create-${type}`, remotePath, '--name', diskName];
+        if (tracks !== undefined) {
+            args.push('--tracks', String(tracks));
+        }
+        await this.exec(args);
+    }
+
+    async fileInfo(remotePath: string): Promise<string> {
+        return this.exec(['fs', 'cat', remotePath]);
+    }
+
+    // The CLI runners only take files on the Ultimate
+    private async uploadToTemp(localPath: string): Promise<string> {
+        const remotePath = `/Temp/${path.basename(localPath)}`;
+        await this.exec(['fs', 'upload', localPath, remotePath]);
+        return remotePath;
+    }
+
+    private exec(args: string[], signal?: AbortSignal): Promise<string> {
+        return executeC64UOrThrow(args, this.device, signal);
+    }
+}
+
+function imageType(imagePath: string): string {
+    return path.extname(imagePath).substring(1).toLowerCase();
+}
+
+/**
+ * Run a request with an AbortSignal that follows a cancellation token.
+ */
+async function withSignal<T>(
+    token: vscode.CancellationToken | undefined,
+    request: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+    const controller = new AbortController();
+    if (token?.isCancellationRequested) {
+        controller.abort();
+    }
+    const cancellation = token?.onCancellationRequested(() => controller.abort());
+    try {
+        return await request(controller.signal);
+    } finally {
+        cancellation?.dispose();
+    }
+}
@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+
+/**
+ * One step of a batch, usually one file. run() may return a note for the
+ * results, e.g. the name a file got.
+ */
+export interface BatchItem {
+    label: string;
+    run(token: vscode.CancellationToken): Promise<string | void>;
+}
+
+export interface BatchResult {
+    succeeded: number;
+    failed: number;
+    cancelled: number;
+}
+
+/**
+ * Runs file operations on many items with one progress notification that
+ * can be cancelled between items. Every item's result goes to the
+ * "C64 Ultimate File Operations" output channel; failures are summed up.
+ */
+export class C64UBatchRunner implements vscode.Disposable {
+    private outputChannel: vscode.OutputChannel | undefined;
+
+    async run(title: string, items: BatchItem[]): Promise<BatchResult> {
+        const result: BatchResult = { succeeded: 0, failed: 0, cancelled: 0 };
+        const lines: string[] = [];
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title,
+            cancellable: true
+        }, async (progress, token) => {
+            for (const [index, item] of items.entries()) {
+                if (token.isCancellationRequested) {
+                    result.cancelled = items.length - index;
+                    lines.push(...items.slice(index).map(skipped => `  - ${skipped.label}: cancelled`));
+                    break;
+                }
+                progress.report({ message: `${item.label} (${index + 1}/${items.length})`, increment: 100 / items.length });
+                try {
+                    const note = await item.run(token);
+                    result.succeeded++;
+                    lines.push(`  ✓ ${item.label}${note ? ` (${note})` : ''}`);
+                } catch (error) {
+                    const msg = error instanceof Error ? error.message : String(error);
+                    result.failed++;
+                    lines.push(`  ✗ ${item.label}: ${msg}`);
+                }
+            }
+        });
+
+        const output = this.outputChannel ??= vscode.window.createOutputChannel('C64 Ultimate File Operations');
+        output.appendLine(title);
+        lines.forEach(line => output.appendLine(line));
+
+        const summary = `${title}: ${result.succeeded} of ${items.length} done`
+            + (result.failed > 0 ? `, ${result.failed} failed` : '')
+            + (result.cancelled > 0 ? `, ${result.cancelled} cancelled` : '');
+        const show = result.failed > 0
+            ? vscode.window.showErrorMessage(summary, 'Show Details')
+            : vscode.window.showInformationMessage(summary, 'Show Details');
+        show.then(choice => {
+            if (choice) {
+                output.show();
+            }
+        });
+        return result;
+    }
+
+    dispose(): void {
+        this.outputChannel?.dispose();
+    }
+}
@@ -1,11 +1,23 @@
-import * as vscode from 'vscode';
 import * as child_process from 'child_process';
 import { getC64uPath, logBinaryResolution } from '../binaries';
+import { C64UDevice, getActiveDevice } from './devices';
 
 export interface C64UResult {
     success: boolean;
     output: string;
     error?: string;
+    /** FTP reply code of a failed file operation, e.g. 450 or 550. */
+    status?: number;
+}
+
+/**
+ * Error of a c64u CLI command, carrying the FTP reply code if there was one.
+ */
+export class C64UCliError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'C64UCliError';
+    }
 }
 
 // Extension path, set during activation
@@ -24,32 +36,45 @@ function getCliBinary(): string {
     return resolution.path;
 }
 
-export async function executeC64U(args: string[]): Promise<C64UResult> {
-    const config = vscode.workspace.getConfiguration('c64u');
-    const cliBinary = getCliBinary();
-    const host = config.get<string>('host');
-    const port = config.get<number>('port');
-
+/**
+ * Host and port arguments for a device.
+ */
+function deviceArgs(device: C64UDevice): string[] {
     const cmdArgs: string[] = [];
 
     // Add host and port if configured
-    if (host) {
-        cmdArgs.push('--host', host);
+    if (device.host) {
+        cmdArgs.push('--host', device.host);
     }
-    if (port) {
-        cmdArgs.push('--port', port.toString());
+    if (device.port) {
+        cmdArgs.push('--port', device.port.toString());
     }
 
+    return cmdArgs;
+}
+
+/**
+ * Run a c64u CLI command. Aborting the signal kills the CLI process.
+ */
+export async function executeC64U(
+    args: string[],
+    device: C64UDevice = getActiveDevice(),
+    signal?: AbortSignal
+): Promise<C64UResult> {
+    const cliBinary = getCliBinary();
+
     // Add the actual command arguments
-    cmdArgs.push(...args);
+    const cmdArgs = [...deviceArgs(device), ...args];
 
     return new Promise((resolve) => {
-        child_process.execFile(cliBinary, cmdArgs, (error, stdout, stderr) => {
+        child_process.execFile(cliBinary, cmdArgs, { signal }, (error, stdout, stderr) => {
             if (error) {
+                const message = signal?.aborted ? 'Cancelled' : stderr || error.message;
                 resolve({
                     success: false,
                     output: stdout,
-                    error: stderr || error.message
+                    error: message,
+                    status: ftpReplyCode(message)
                 });
             } else {
                 resolve({
@@ -61,27 +86,11 @@ export async function executeC64U(args: string[]): Promise<C64UResult> {
     });
 }
 
-export async function executeC64UJson<T>(args: string[]): Promise<T | null> {
-    const config = vscode.workspace.getConfiguration('c64u');
+export async function executeC64UJson<T>(args: string[], device: C64UDevice = getActiveDevice()): Promise<T | null> {
     const cliBinary = getCliBinary();
-    const host = config.get<string>('host');
-    const port = config.get<number>('port');
 
-    const cmdArgs: string[] = [];
-
-    // Add host and port if configured
-    if (host) {
-        cmdArgs.push('--host', host);
-    }
-    if (port) {
-        cmdArgs.push('--port', port.toString());
-    }
-
-    // Add JSON flag
-    cmdArgs.push('--json');
-
-    // Add the actual command arguments
-    cmdArgs.push(...args);
+    // Add JSON flag and the actual command arguments
+    const cmdArgs = [...deviceArgs(device), '--json', ...args];
 
     return new Promise((resolve) => {
         child_process.execFile(cliBinary, cmdArgs, (error, stdout, stderr) => {
@@ -108,3 +117,22 @@ export async function executeC64UJson<T>(args: string[]): Promise<T | null> {
         });
     });
 }
+
+/**
+ * Run a c64u CLI command, throwing a C64UCliError when it fails.
+ */
+export async function executeC64UOrThrow(args: string[], device?: C64UDevice, signal?: AbortSignal): Promise<string> {
+    const result = await executeC64U(args, device, signal);
+    if (!result.success) {
+        throw new C64UCliError(result.error || 'Command failed', result.status);
+    }
+    return result.output;
+}
+
+function ftpReplyCode(message: string): number | undefined {
+    // File operations go over FTP; failures carry the server's reply, e.g.
+    // "550 File not found", at the start of a line or after a "...:" prefix.
+    // Numbers elsewhere, as in file names, are not reply codes.
+    const match = message.match(/^(?:.*?:\s*)?([45]\d\d)[ -]/m);
+    return match ? parseInt(match[1], 10) : undefined;
+}
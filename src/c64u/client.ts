@@ -1,4 +1,5 @@
 import { executeC64UJson } from './cli';
+import { C64UDevice } from './devices';
 
 export interface C64UFile {
     name: string;
@@ -16,11 +17,11 @@ interface C64URawFile {
 
 export class C64UClient {
     constructor() {
-        // Host and port are read from workspace config by executeC64UJson
+        // Goes to the active device (see devices.ts)
     }
 
-    async listFiles(targetPath: string): Promise<C64UFile[]> {
-        const rawFiles = await executeC64UJson<C64URawFile[]>(['fs', 'ls', targetPath]);
+    async listFiles(targetPath: string, device?: C64UDevice): Promise<C64UFile[]> {
+        const rawFiles = await executeC64UJson<C64URawFile[]>(['fs', 'ls', targetPath], device);
 
         // null means error, empty array means empty directory
         if (rawFiles === null) {
@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import { getC64UBackend } from './backend';
+import { C64UDevice, getActiveDevice, onDidChangeActiveDevice } from './devices';
+
+export type C64UConnectionState = 'unknown' | 'online' | 'offline';
+
+/**
+ * Pings the active C64 Ultimate in the background and keeps the
+ * `c64u.connected` context key and the device status bar item up to date.
+ */
+export class C64UConnectionMonitor implements vscode.Disposable {
+    private _state: C64UConnectionState = 'unknown';
+    // Product and firmware of the device, read when it comes online
+    private description: string | undefined;
+    private lastError: string | undefined;
+    private timer: NodeJS.Timeout | undefined;
+    // The ping in flight and the generation it was started in
+    private checking: { generation: number; ping: Promise<void> } | undefined;
+    // Bumped on restart so a loop still waiting on a ping stops
+    private generation = 0;
+    private disposed = false;
+
+    private statusBarItem: vscode.StatusBarItem;
+    private listeners: vscode.Disposable[] = [];
+
+    private _onDidChangeState = new vscode.EventEmitter<C64UConnectionState>();
+    /** Fires when the active device goes online or offline. */
+    readonly onDidChangeState: vscode.Event<C64UConnectionState> = this._onDidChangeState.event;
+
+    constructor() {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 48);
+        this.statusBarItem.command = 'c64u.selectDevice';
+
+        this.listeners.push(
+            onDidChangeActiveDevice(() => this.restart()),
+            vscode.workspace.onDidChangeConfiguration(e => {
+                if (e.affectsConfiguration('c64u')) {
+                    this.restart();
+                }
+            })
+        );
+        this.restart();
+    }
+
+    get state(): C64UConnectionState {
+        return this._state;
+    }
+
+    get connected(): boolean {
+        return this._state === 'online';
+    }
+
+    /**
+     * Ping the active device now, e.g. after a request to it failed.
+     * Concurrent calls share one ping, unless the device or settings
+     * changed since it started. Resolves to the new state.
+     */
+    async check(): Promise<C64UConnectionState> {
+        if (this.checking?.generation !== this.generation) {
+            const checking = {
+                generation: this.generation,
+                ping: this.ping().finally(() => {
+                    if (this.checking === checking) {
+                        this.checking = undefined;
+                    }
+                })
+            };
+            this.checking = checking;
+        }
+        await this.checking.ping;
+        return this._state;
+    }
+
+    private restart(): void {
+        this.generation++;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+
+        if (!isEnabled()) {
+            this.setState('unknown');
+            this.statusBarItem.hide();
+            return;
+        }
+
+        // A different device starts out unknown
+        this.description = undefined;
+        this.setState('unknown');
+        this.schedule(0);
+    }
+
+    private schedule(delay: number): void {
+        if (this.disposed) {
+            return;
+        }
+        const generation = this.generation;
+        this.timer = setTimeout(async () => {
+            this.timer = undefined;
+            await this.check();
+            if (generation !== this.generation) {
+                return;
+            }
+            const interval = vscode.workspace.getConfiguration('c64u').get<number>('pingIntervalMs', 10000);
+            if (interval > 0 && isEnabled()) {
+                this.schedule(interval);
+            }
+        }, delay);
+    }
+
+    private async ping(): Promise<void> {
+        const device = getActiveDevice();
+        const backend = getC64UBackend(device);
+        const cancellation = new vscode.CancellationTokenSource();
+        const timeout = setTimeout(() => cancellation.cancel(), pingTimeout());
+
+        try {
+            await backend.ping(cancellation.token);
+            if (this._state !== 'online' || !this.description) {
+                this.description = await backend.describe(cancellation.token).catch(() => undefined);
+            }
+            this.lastError = undefined;
+            this.setState('online', device);
+        } catch (error) {
+            this.lastError = error instanceof Error ? error.message : String(error);
+            this.setState('offline', device);
+        } finally {
+            clearTimeout(timeout);
+            cancellation.dispose();
+        }
+    }
+
+    private setState(state: C64UConnectionState, device: C64UDevice = getActiveDevice()): void {
+        // Ignore results for a device that is no longer active
+        if (device.name !== getActiveDevice().name || this.disposed) {
+            return;
+        }
+
+        const changed = state !== this._state;
+        this._state = state;
+        vscode.commands.executeCommand('setContext', 'c64u.connected', state === 'online');
+        this.updateStatusBar(device);
+
+        if (changed) {
+            this._onDidChangeState.fire(state);
+        }
+    }
+
+    private updateStatusBar(device: C64UDevice): void {
+        if (!isEnabled()) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const address = `${device.host}${device.port ? `:${device.port}` : ''}`;
+        switch (this._state) {
+            case 'online':
+                this.statusBarItem.text = `$(circuit-board) ${device.name}`;
+                this.statusBarItem.tooltip = `C64 Ultimate ${address}: online${this.description ? `\n${this.description}` : ''}\nClick to switch device.`;
+                this.statusBarItem.backgroundColor = undefined;
+                break;
+            case 'offline':
+                this.statusBarItem.text = `$(debug-disconnect) ${device.name}`;
+                this.statusBarItem.tooltip = `C64 Ultimate ${address}: not reachable${this.lastError ? `\n${this.lastError}` : ''}\nClick to switch device.`;
+                this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+                break;
+            default:
+                this.statusBarItem.text = `$(loading~spin) ${device.name}`;
+                this.statusBarItem.tooltip = `C64 Ultimate ${address}: connecting...`;
+                this.statusBarItem.backgroundColor = undefined;
+                break;
+        }
+        this.statusBarItem.show();
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.listeners.forEach(listener => listener.dispose());
+        this._onDidChangeState.dispose();
+        this.statusBarItem.dispose();
+    }
+}
+
+function isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('c64u').get<boolean>('enabled', false);
+}
+
+// Pings give up sooner than regular requests so an offline device is noticed quickly
+function pingTimeout(): number {
+    return Math.min(vscode.workspace.getConfiguration('c64u').get<number>('timeoutMs', 10000), 3000);
+}
@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { executeC64UOrThrow } from './cli';
+import { C64UBackend, C64UBackendKind } from './backend';
+import { C64UDevice } from './devices';
+
+/**
+ * How the program is started: 'dma' sends the PRG with the run request and
+ * writes it straight into memory, 'file' uploads it and runs the copy on
+ * the Ultimate.
+ */
+export type DeployRunMode = 'dma' | 'file';
+
+/**
+ * c64u.deploy settings of a workspace folder.
+ */
+export interface DeployConfig {
+    remoteDir: string;
+    /** Extra files to upload, relative to the workspace folder. */
+    files: string[];
+    mountDisk: boolean;
+    resetBeforeRun: boolean;
+    runMode: DeployRunMode;
+}
+
+export type DeployStep =
+    | { kind: 'upload'; localPath: string; remotePath: string }
+    | { kind: 'mount'; remotePath: string }
+    | { kind: 'reset' }
+    | { kind: 'run'; mode: 'dma'; localPath: string }
+    | { kind: 'run'; mode: 'file'; remotePath: string };
+
+export function getDeployConfig(scope?: vscode.Uri): DeployConfig {
+    const config = vscode.workspace.getConfiguration('c64u.deploy', scope);
+    return {
+        remoteDir: config.get<string>('remoteDir', '/Temp').replace(/\/+$/, '') || '/Temp',
+        files: config.get<string[]>('files', []),
+        mountDisk: config.get<boolean>('mountDisk', true),
+        resetBeforeRun: config.get<boolean>('resetBeforeRun', false),
+        runMode: config.get<DeployRunMode>('runMode', 'dma')
+    };
+}
+
+/**
+ * Steps to put a program (and the disk image built with it) on the
+ * Ultimate and start it: uploads first, then mount, reset and run.
+ * The CLI backend cannot DMA-load, so it always runs an uploaded file.
+ */
+export function planDeployment(
+    prgPath: string,
+    diskImage: string | undefined,
+    config: DeployConfig,
+    root: string,
+    backendKind: C64UBackendKind
+): DeployStep[] {
+    const remote = (localPath: string) => `${config.remoteDir}/${path.basename(localPath)}`;
+    const steps: DeployStep[] = config.files.map(file => {
+        const localPath = path.resolve(root, file);
+        return { kind: 'upload', localPath, remotePath: remote(localPath) };
+    });
+
+    const mountDisk = config.mountDisk && diskImage !== undefined;
+    if (mountDisk) {
+        steps.push({ kind: 'upload', localPath: diskImage, remotePath: remote(diskImage) });
+    }
+    const runMode = backendKind === 'cli' ? 'file' : config.runMode;
+    if (runMode === 'file') {
+        steps.push({ kind: 'upload', localPath: prgPath, remotePath: remote(prgPath) });
+    }
+
+    if (mountDisk) {
+        steps.push({ kind: 'mount', remotePath: remote(diskImage) });
+    }
+    if (config.resetBeforeRun) {
+        steps.push({ kind: 'reset' });
+    }
+    steps.push(runMode === 'file'
+        ? { kind: 'run', mode: 'file', remotePath: remote(prgPath) }
+        : { kind: 'run', mode: 'dma', localPath: prgPath });
+    return steps;
+}
+
+/**
+ * One line per step for the dry run, with local paths relative to the root.
+ */
+export function describeStep(step: DeployStep, root: string): string {
+    const local = (localPath: string) => {
+        const relative = path.relative(root, localPath);
+        const exists = fs.existsSync(localPath);
+        return `${relative.startsWith('..') ? localPath : relative}${exists ? '' : ' (missing)'}`;
+    };
+
+    switch (step.kind) {
+        case 'upload':
+            return `Upload ${local(step.localPath)} -> ${step.remotePath}`;
+        case 'mount':
+            return `Mount ${step.remotePath} on drive A`;
+        case 'reset':
+            return 'Reset the machine';
+        case 'run':
+            return step.mode === 'dma'
+                ? `Run ${local(step.localPath)} (DMA load, nothing stored on the device)`
+                : `Run ${step.remotePath}`;
+    }
+}
+
+/**
+ * Carry out the steps in order, stopping at the first failure. Throws a
+ * CancellationError when cancelled; a running upload is aborted.
+ */
+export async function executeDeployment(
+    steps: DeployStep[],
+    backend: C64UBackend,
+    device: C64UDevice,
+    progress: vscode.Progress<{ message?: string }>,
+    token: vscode.CancellationToken
+): Promise<void> {
+    const abort = new AbortController();
+    const cancellation = token.onCancellationRequested(() => abort.abort());
+    try {
+        for (const step of steps) {
+            if (token.isCancellationRequested) {
+                throw new vscode.CancellationError();
+            }
+            switch (step.kind) {
+                case 'upload':
+                    progress.report({ message: `Uploading ${path.basename(step.localPath)}...` });
+                    await executeC64UOrThrow(['fs', 'upload', step.localPath, step.remotePath], device, abort.signal);
+                    break;
+                case 'mount':
+                    progress.report({ message: `Mounting ${path.basename(step.remotePath)}...` });
+                    await backend.mount('a', step.remotePath, path.extname(step.remotePath).substring(1).toLowerCase(), 'readwrite', token);
+                    break;
+                case 'reset':
+                    progress.report({ message: 'Resetting...' });
+                    await backend.machine('reset', token);
+                    break;
+                case 'run':
+                    progress.report({ message: 'Running...' });
+                    if (step.mode === 'dma') {
+                        await backend.runLocalPrg(step.localPath, token);
+                    } else {
+                        await backend.runPrg(step.remotePath, token);
+                    }
+                    break;
+            }
+        }
+    } finally {
+        cancellation.dispose();
+    }
+}
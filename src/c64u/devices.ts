@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+
+/**
+ * A C64 Ultimate device from the c64u.devices setting.
+ */
+export interface C64UDevice {
+    name: string;
+    host: string;
+    port?: number;
+    password?: string;
+}
+
+const ACTIVE_DEVICE_KEY = 'c64u.activeDevice';
+
+// Workspace state holding the active device, set during activation
+let deviceState: vscode.Memento | undefined;
+const activeDeviceEmitter = new vscode.EventEmitter<C64UDevice>();
+
+/** Fires when another device was selected. */
+export const onDidChangeActiveDevice: vscode.Event<C64UDevice> = activeDeviceEmitter.event;
+
+export function initC64UDevices(state: vscode.Memento): void {
+    deviceState = state;
+}
+
+/**
+ * Configured devices. Without c64u.devices, c64u.host and c64u.port
+ * describe the only device.
+ */
+export function getDevices(): C64UDevice[] {
+    const config = vscode.workspace.getConfiguration('c64u');
+    const devices = config.get<C64UDevice[]>('devices', [])
+        .filter(device => device && typeof device.name === 'string' && typeof device.host === 'string');
+
+    if (devices.length > 0) {
+        return devices;
+    }
+
+    const host = config.get<string>('host') || 'localhost';
+    return [{
+        name: host,
+        host,
+        port: config.get<number>('port') || undefined,
+        password: config.get<string>('password') || undefined
+    }];
+}
+
+/**
+ * Whether c64u.devices lists devices to choose from.
+ */
+export function hasDeviceList(): boolean {
+    return vscode.workspace.getConfiguration('c64u').get<C64UDevice[]>('devices', []).length > 0;
+}
+
+/**
+ * The device commands go to: the one selected in this workspace, or the first.
+ */
+export function getActiveDevice(): C64UDevice {
+    const devices = getDevices();
+    const name = deviceState?.get<string>(ACTIVE_DEVICE_KEY);
+    return devices.find(device => device.name === name) ?? devices[0];
+}
+
+export async function setActiveDevice(name: string): Promise<void> {
+    const device = getDevices().find(d => d.name === name);
+    if (!device) {
+        vscode.window.showErrorMessage(`Unknown C64 Ultimate device: ${name}`);
+        return;
+    }
+    await deviceState?.update(ACTIVE_DEVICE_KEY, device.name);
+    activeDeviceEmitter.fire(device);
+}
+
+export async function pickDevice(placeHolder: string): Promise<C64UDevice | undefined> {
+    const active = getActiveDevice();
+    const selected = await vscode.window.showQuickPick(
+        getDevices().map(device => ({
+            label: device.name,
+            description: `${device.host}${device.port ? `:${device.port}` : ''}`,
+            detail: device.name === active.name ? 'Active device' : undefined,
+            device
+        })),
+        { placeHolder }
+    );
+    return selected?.device;
+}
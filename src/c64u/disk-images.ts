@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { executeC64UOrThrow } from './cli';
+import { C64UBackend } from './backend';
+import { DiskFile, DiskImage, diskFormatFromPath } from '../disk-image';
+
+// How long a downloaded image is reused before it is fetched again
+const IMAGE_TTL_MS = 30000;
+
+/**
+ * Disk images on the Ultimate, downloaded and parsed on demand so the tree
+ * can show their directory and extract files from them.
+ */
+export class C64UDiskImageCache {
+    private images: Map<string, { image: Promise<DiskImage>; time: number }> = new Map();
+
+    /**
+     * Whether the image at a path can be read locally.
+     */
+    static isSupported(remotePath: string): boolean {
+        return diskFormatFromPath(remotePath) !== undefined;
+    }
+
+    load(remotePath: string): Promise<DiskImage> {
+        const cached = this.images.get(remotePath);
+        if (cached && Date.now() - cached.time < IMAGE_TTL_MS) {
+            return cached.image;
+        }
+
+        const image = this.download(remotePath);
+        this.images.set(remotePath, { image, time: Date.now() });
+        // Don't keep failures around
+        image.catch(() => this.images.delete(remotePath));
+        return image;
+    }
+
+    /**
+     * Forget images at or below a path.
+     */
+    invalidate(remotePath?: string): void {
+        if (remotePath === undefined) {
+            this.images.clear();
+            return;
+        }
+        const prefix = remotePath === '/' ? '/' : `${remotePath}/`;
+        for (const key of [...this.images.keys()]) {
+            if (key === remotePath || key.startsWith(prefix)) {
+                this.images.delete(key);
+            }
+        }
+    }
+
+    private async download(remotePath: string): Promise<DiskImage> {
+        const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'c64u-image-'));
+        const localPath = path.join(tempDir, path.basename(remotePath));
+        try {
+            await executeC64UOrThrow(['fs', 'download', remotePath, localPath]);
+            const data = await fs.promises.readFile(localPath);
+            return DiskImage.parse(data, diskFormatFromPath(remotePath));
+        } finally {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        }
+    }
+}
+
+/**
+ * First PRG in the directory of an image, the one an autoload starts.
+ */
+export function firstProgram(image: DiskImage): DiskFile | undefined {
+    return image.files.find(file => file.type === 'PRG' && file.closed);
+}
+
+/**
+ * Run a program from a disk image through a local copy; the image itself
+ * is left alone.
+ */
+export async function runFromImage(
+    backend: C64UBackend,
+    image: DiskImage,
+    file: DiskFile,
+    token?: vscode.CancellationToken
+): Promise<void> {
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'c64u-run-'));
+    try {
+        const localPath = path.join(tempDir, 'program.prg');
+        await fs.promises.writeFile(localPath, image.readFile(file));
+        await backend.runLocalPrg(localPath, token);
+    } finally {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+}
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
 import { executeC64UJson } from './cli';
+import { getC64UBackend } from './backend';
+import { DriveId, MountMode } from './rest-client';
 
 interface FileEntry {
     Name: string;
@@ -168,24 +170,22 @@ export class FileBrowserProvider {
     }
 
     private async runPrg(prgPath: string): Promise<void> {
-        const { executeC64U } = await import('./cli');
-        const result = await executeC64U(['runners', 'run-prg', prgPath]);
-
-        if (result.success) {
+        try {
+            await getC64UBackend().runPrg(prgPath);
             vscode.window.showInformationMessage(`Running ${prgPath} on C64 Ultimate`);
-        } else {
-            vscode.window.showErrorMessage(`Failed to run: ${result.error}`);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to run: ${msg}`);
         }
     }
 
     private async runCrt(prgPath: string): Promise<void> {
-        const { executeC64U } = await import('./cli');
-        const result = await executeC64U(['runners', 'run-crt', prgPath]);
-
-        if (result.success) {
+        try {
+            await getC64UBackend().runCrt(prgPath);
             vscode.window.showInformationMessage(`Running ${prgPath} on C64 Ultimate`);
-        } else {
-            vscode.window.showErrorMessage(`Failed to run: ${result.error}`);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to run: ${msg}`);
         }
     }
 
@@ -228,28 +228,21 @@ export class FileBrowserProvider {
             imageType = 'd71';
         }
 
-        const { executeC64U } = await import('./cli');
-        const result = await executeC64U([
-            'drives', 'mount', drive.value, imagePath,
-            '--mode', mode.value,
-            '--type', imageType || 'd64'
-        ]);
-
-        if (result.success) {
+        try {
+            await getC64UBackend().mount(drive.value as DriveId, imagePath, imageType || 'd64', mode.value as MountMode);
             vscode.window.showInformationMessage(`Mounted ${imagePath} to drive ${drive.value}`);
-        } else {
-            vscode.window.showErrorMessage(`Mount failed: ${result.error}`);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Mount failed: ${msg}`);
         }
     }
 
     private async showFileInfo(filePath: string): Promise<void> {
-        const { executeC64U } = await import('./cli');
-        const result = await executeC64U(['fs', 'cat', filePath]);
-
-        if (result.success) {
-            vscode.window.showInformationMessage(result.output);
-        } else {
-            vscode.window.showErrorMessage(`Failed to get file info: ${result.error}`);
+        try {
+            vscode.window.showInformationMessage(await getC64UBackend().fileInfo(filePath));
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to get file info: ${msg}`);
         }
     }
 
@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { C64UCliError, executeC64UOrThrow } from './cli';
+import { C64UClient, C64UFile } from './client';
+import { C64UDevice, getDevices } from './devices';
+
+export const C64U_SCHEME = 'c64u';
+
+// Listings are reused this long, as VS Code stats files in quick succession
+const LISTING_TTL_MS = 2000;
+
+/**
+ * URI of a file on a device: c64u://<device name>/Usb0/file.prg
+ */
+export function c64uUri(device: C64UDevice, remotePath: string): vscode.Uri {
+    return vscode.Uri.from({ scheme: C64U_SCHEME, authority: device.name, path: remotePath });
+}
+
+/**
+ * The storage of the configured C64 Ultimates as a file system, so remote
+ * files open in any editor and directories can be workspace folders.
+ * Files go through the c64u CLI like the tree view's file operations.
+ * Changes made by others are not watched.
+ */
+export class C64UFileSystem implements vscode.FileSystemProvider {
+    private changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    readonly onDidChangeFile = this.changeEmitter.event;
+
+    private listings = new Map<string, { time: number; files: Promise<C64UFile[]> }>();
+    // The Ultimate lists no timestamps; files written here get one for this session
+    private modified = new Map<string, number>();
+
+    constructor(private client: C64UClient) {}
+
+    watch(): vscode.Disposable {
+        return new vscode.Disposable(() => undefined);
+    }
+
+    async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        const remotePath = toRemotePath(uri);
+        if (remotePath === '/') {
+            return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+        }
+
+        const file = await this.find(uri);
+        if (!file) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        const mtime = this.modified.get(uri.toString()) ?? 0;
+        return {
+            type: file.is_dir ? vscode.FileType.Directory : vscode.FileType.File,
+            ctime: 0,
+            mtime,
+            size: file.size
+        };
+    }
+
+    async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        const files = await this.list(uri);
+        return files.map(file => [file.name, file.is_dir ? vscode.FileType.Directory : vscode.FileType.File]);
+    }
+
+    async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        const device = this.device(uri);
+        return withTempFile(uri, async localPath => {
+            await executeC64UOrThrow(['fs', 'download', toRemotePath(uri), localPath], device);
+            return fs.promises.readFile(localPath);
+        });
+    }
+
+    async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+        const existing = await this.find(uri);
+        if (existing?.is_dir) {
+            throw vscode.FileSystemError.FileIsADirectory(uri);
+        }
+        if (!existing && !options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (existing && !options.overwrite) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+
+        const device = this.device(uri);
+        await withTempFile(uri, async localPath => {
+            await fs.promises.writeFile(localPath, content);
+            await executeC64UOrThrow(['fs', 'upload', localPath, toRemotePath(uri)], device);
+        });
+        this.modified.set(uri.toString(), Date.now());
+        this.changed(uri, existing ? vscode.FileChangeType.Changed : vscode.FileChangeType.Created);
+    }
+
+    async createDirectory(uri: vscode.Uri): Promise<void> {
+        await this.run(uri, ['fs', 'mkdir', toRemotePath(uri)]);
+        this.changed(uri, vscode.FileChangeType.Created);
+    }
+
+    async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        const file = await this.find(uri);
+        if (!file) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        if (file.is_dir) {
+            const children = await this.list(uri);
+            if (children.length > 0 && !options.recursive) {
+                throw vscode.FileSystemError.NoPermissions(`${toRemotePath(uri)} is not empty`);
+            }
+            for (const child of children) {
+                await this.delete(vscode.Uri.joinPath(uri, child.name), options);
+            }
+        }
+
+        await this.run(uri, ['fs', 'rm', toRemotePath(uri)]);
+        this.modified.delete(uri.toString());
+        this.changed(uri, vscode.FileChangeType.Deleted);
+    }
+
+    async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        await this.prepareTarget(oldUri, newUri, options.overwrite);
+        await this.run(oldUri, ['fs', 'mv', toRemotePath(oldUri), toRemotePath(newUri)]);
+        this.modified.delete(oldUri.toString());
+        this.changed(oldUri, vscode.FileChangeType.Deleted);
+        this.changed(newUri, vscode.FileChangeType.Created);
+    }
+
+    async copy(source: vscode.Uri, destination: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        await this.prepareTarget(source, destination, options.overwrite);
+        await this.run(source, ['fs', 'cp', toRemotePath(source), toRemotePath(destination)]);
+        this.changed(destination, vscode.FileChangeType.Created);
+    }
+
+    // Moves and copies stay on one device; an existing target is removed first
+    private async prepareTarget(source: vscode.Uri, target: vscode.Uri, overwrite: boolean): Promise<void> {
+        if (this.device(source).name !== this.device(target).name) {
+            throw vscode.FileSystemError.NoPermissions('Files cannot be moved or copied between devices directly');
+        }
+        if (await this.find(target)) {
+            if (!overwrite) {
+                throw vscode.FileSystemError.FileExists(target);
+            }
+            await this.delete(target, { recursive: true });
+        }
+    }
+
+    private async find(uri: vscode.Uri): Promise<C64UFile | undefined> {
+        const remotePath = toRemotePath(uri);
+        let files: C64UFile[];
+        try {
+            files = await this.list(uri.with({ path: path.posix.dirname(remotePath) }));
+        } catch {
+            return undefined;
+        }
+        const name = path.posix.basename(remotePath);
+        return files.find(file => file.name === name);
+    }
+
+    private async list(uri: vscode.Uri): Promise<C64UFile[]> {
+        const device = this.device(uri);
+        const key = uri.with({ path: toRemotePath(uri) }).toString();
+        let listing = this.listings.get(key);
+        if (!listing || Date.now() - listing.time >= LISTING_TTL_MS) {
+            listing = { time: Date.now(), files: this.client.listFiles(toRemotePath(uri), device) };
+            this.listings.set(key, listing);
+        }
+        try {
+            return await listing.files;
+        } catch {
+            this.listings.delete(key);
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+    }
+
+    private async run(uri: vscode.Uri, args: string[]): Promise<void> {
+        try {
+            await executeC64UOrThrow(args, this.device(uri));
+        } catch (error) {
+            throw toFileSystemError(error, uri);
+        }
+    }
+
+    private changed(uri: vscode.Uri, type: vscode.FileChangeType): void {
+        const parent = uri.with({ path: path.posix.dirname(toRemotePath(uri)) });
+        this.listings.delete(parent.toString());
+        this.listings.delete(uri.with({ path: toRemotePath(uri) }).toString());
+        this.changeEmitter.fire([{ type, uri }, { type: vscode.FileChangeType.Changed, uri: parent }]);
+    }
+
+    private device(uri: vscode.Uri): C64UDevice {
+        const device = getDevices().find(d => d.name.toLowerCase() === uri.authority.toLowerCase());
+        if (!device) {
+            throw vscode.FileSystemError.Unavailable(`Unknown C64 Ultimate device: ${uri.authority}`);
+        }
+        return device;
+    }
+}
+
+function toRemotePath(uri: vscode.Uri): string {
+    return uri.path.replace(/\/+$/, '') || '/';
+}
+
+function toFileSystemError(error: unknown, uri: vscode.Uri): vscode.FileSystemError {
+    if (error instanceof vscode.FileSystemError) {
+        return error;
+    }
+    // 550: the FTP reply for a missing file or directory
+    if (error instanceof C64UCliError && error.status === 550) {
+        return vscode.FileSystemError.FileNotFound(uri);
+    }
+    const msg = error instanceof Error ? error.message : String(error);
+    return vscode.FileSystemError.Unavailable(`${toRemotePath(uri)}: ${msg}`);
+}
+
+/**
+ * Run a transfer through a local file that is removed afterwards.
+ */
+async function withTempFile<T>(uri: vscode.Uri, transfer: (localPath: string) => Promise<T>): Promise<T> {
+    const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'c64u-fs-'));
+    try {
+        return await transfer(path.join(tempDir, path.posix.basename(toRemotePath(uri)) || 'file'));
+    } catch (error) {
+        throw toFileSystemError(error, uri);
+    } finally {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+    }
+}
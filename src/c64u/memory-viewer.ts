@@ -0,0 +1,274 @@
+import * as vscode from 'vscode';
+import { getC64UBackend } from './backend';
+import { C64UConnectionMonitor } from './connection';
+import { C64UService } from './service';
+import { MemoryRange, hex, parseRange } from './memory';
+
+/** Messages from the memory viewer page. */
+type MemoryViewerMessage =
+    | { command: 'read'; range: string }
+    | { command: 'autoRefresh'; enabled: boolean }
+    | { command: 'pause' | 'resume' };
+
+/**
+ * Hex view of a memory range of the active C64 Ultimate, read through the
+ * REST API. Can poll while the machine runs and shows when it is paused.
+ */
+export class C64UMemoryViewer implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    private range: MemoryRange = { start: 0x0400, length: 0x0400 };
+    private autoRefresh = false;
+    // Last read, to highlight bytes that changed since
+    private data: Buffer | undefined;
+    private timer: NodeJS.Timeout | undefined;
+    private reading = false;
+    // A read was asked for while one was running, e.g. for a new range
+    private readAgain = false;
+    private listeners: vscode.Disposable[] = [];
+
+    constructor(private service: C64UService, private connection: C64UConnectionMonitor) {
+        this.listeners.push(
+            service.onDidChangePaused(() => {
+                this.post({ command: 'paused', paused: service.paused });
+                void this.read();
+            }),
+            connection.onDidChangeState(() => this.schedule())
+        );
+    }
+
+    show(range?: MemoryRange): void {
+        if (range) {
+            this.range = range;
+            this.data = undefined;
+        }
+
+        if (this.panel) {
+            this.panel.reveal();
+            this.render();
+            void this.read();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'c64u.memoryViewer',
+            'C64 Ultimate Memory',
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+            this.data = undefined;
+            this.stopTimer();
+        });
+        this.panel.webview.onDidReceiveMessage(async (raw: unknown) => {
+            const message = parseMessage(raw);
+            switch (message?.command) {
+                case 'read': {
+                    const parsed = parseRange(message.range);
+                    if (!parsed) {
+                        this.post({ command: 'error', message: 'Enter $start-$end or $start+length (hex, within $0000-$FFFF)' });
+                        return;
+                    }
+                    if (parsed.start !== this.range.start || parsed.length !== this.range.length) {
+                        this.range = parsed;
+                        this.data = undefined;
+                    }
+                    await this.read();
+                    break;
+                }
+                case 'autoRefresh':
+                    this.autoRefresh = message.enabled;
+                    this.schedule();
+                    break;
+                case 'pause':
+                case 'resume':
+                    await this.service.executeMachineAction(message.command);
+                    break;
+            }
+        });
+        this.render();
+        void this.read();
+    }
+
+    private async read(): Promise<void> {
+        if (!this.panel) {
+            return;
+        }
+        if (this.reading) {
+            this.readAgain = true;
+            return;
+        }
+
+        // The range may change while the request runs; then its result is stale
+        const range = this.range;
+        this.reading = true;
+        try {
+            const data = await getC64UBackend().readMemory(range.start, range.length);
+            if (range === this.range) {
+                this.post({
+                    command: 'data',
+                    start: range.start,
+                    bytes: [...data],
+                    changed: this.data ? [...data].map((byte, i) => byte !== this.data![i]) : []
+                });
+                this.data = data;
+            }
+        } catch (error) {
+            if (range === this.range) {
+                const msg = error instanceof Error ? error.message : String(error);
+                this.post({ command: 'error', message: `Failed to read memory: ${msg}` });
+            }
+            void this.connection.check();
+        } finally {
+            this.reading = false;
+        }
+
+        if (this.readAgain || range !== this.range) {
+            this.readAgain = false;
+            await this.read();
+            return;
+        }
+        this.schedule();
+    }
+
+    // Poll only while it can show something new: running, online and visible
+    private schedule(): void {
+        this.stopTimer();
+        if (!this.panel || !this.autoRefresh || this.service.paused || !this.connection.connected) {
+            return;
+        }
+        const interval = vscode.workspace.getConfiguration('c64u').get<number>('memoryViewer.pollIntervalMs', 1000);
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            if (this.panel?.visible) {
+                void this.read();
+            } else {
+                this.schedule();
+            }
+        }, Math.max(interval, 100));
+    }
+
+    private stopTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private post(message: object): void {
+        void this.panel?.webview.postMessage(message);
+    }
+
+    private render(): void {
+        if (!this.panel) {
+            return;
+        }
+        const end = this.range.start + this.range.length - 1;
+        this.panel.title = `C64 Memory $${hex(this.range.start)}-$${hex(end)}`;
+        this.panel.webview.html = this.getHtml(`$${hex(this.range.start)}-$${hex(end)}`);
+    }
+
+    private getHtml(range: string): string {
+        const nonce = Date.now().toString(36) + Math.random().toString(36).substring(2);
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        form { display: flex; gap: 8px; align-items: center; flex-wrap: wrap; margin-bottom: 8px; }
+        input[type=text] { width: 12em; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 4px; }
+        button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 3px 10px; cursor: pointer; }
+        #state { padding: 1px 6px; border-radius: 3px; }
+        #state.paused { background: var(--vscode-statusBarItem-warningBackground); color: var(--vscode-statusBarItem-warningForeground); }
+        #error { color: var(--vscode-errorForeground); }
+        pre { font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size); margin: 0; }
+        .address { color: var(--vscode-descriptionForeground); }
+        .changed { color: var(--vscode-charts-red, #f44336); font-weight: bold; }
+    </style>
+</head>
+<body>
+    <form id="form">
+        <input type="text" id="range" value="${range}" title="$start-$end or $start+length">
+        <button type="submit">Read</button>
+        <label><input type="checkbox" id="auto"${this.autoRefresh ? ' checked' : ''}> Auto refresh</label>
+        <button type="button" id="toggle">${this.service.paused ? 'Resume' : 'Pause'}</button>
+        <span id="state" class="${this.service.paused ? 'paused' : ''}">${this.service.paused ? 'Paused' : 'Running'}</span>
+    </form>
+    <div id="error"></div>
+    <pre id="dump">Reading...</pre>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        let paused = ${this.service.paused};
+        const hex = (value, digits) => value.toString(16).toUpperCase().padStart(digits, '0');
+        // Printable ASCII as is, everything else as a dot
+        const char = byte => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte).replace(/[&<>]/g, c => '&#' + c.charCodeAt(0) + ';') : '.';
+
+        document.getElementById('form').addEventListener('submit', event => {
+            event.preventDefault();
+            vscode.postMessage({ command: 'read', range: document.getElementById('range').value });
+        });
+        document.getElementById('auto').addEventListener('change', event => {
+            vscode.postMessage({ command: 'autoRefresh', enabled: event.target.checked });
+        });
+        document.getElementById('toggle').addEventListener('click', () => {
+            vscode.postMessage({ command: paused ? 'resume' : 'pause' });
+        });
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'paused') {
+                paused = message.paused;
+                document.getElementById('toggle').textContent = paused ? 'Resume' : 'Pause';
+                const state = document.getElementById('state');
+                state.textContent = paused ? 'Paused' : 'Running';
+                state.className = paused ? 'paused' : '';
+            } else if (message.command === 'error') {
+                document.getElementById('error').textContent = message.message;
+            } else if (message.command === 'data') {
+                document.getElementById('error').textContent = '';
+                const lines = [];
+                for (let offset = 0; offset < message.bytes.length; offset += 16) {
+                    const row = message.bytes.slice(offset, offset + 16);
+                    const cells = row.map((byte, i) => message.changed[offset + i]
+                        ? '<span class="changed">' + hex(byte, 2) + '</span>'
+                        : hex(byte, 2));
+                    lines.push('<span class="address">$' + hex(message.start + offset, 4) + '</span>  '
+                        + cells.join(' ') + '   '.repeat(16 - row.length) + '  ' + row.map(char).join(''));
+                }
+                document.getElementById('dump').innerHTML = lines.join('\\n');
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        this.stopTimer();
+        this.listeners.forEach(listener => listener.dispose());
+        this.panel?.dispose();
+    }
+}
+
+/**
+ * The message if it carries what its command needs.
+ */
+function parseMessage(message: unknown): MemoryViewerMessage | undefined {
+    if (typeof message !== 'object' || message === null) {
+        return undefined;
+    }
+    const m = message as Record<string, unknown>;
+    switch (m.command) {
+        case 'read':
+            return typeof m.range === 'string' ? { command: m.command, range: m.range } : undefined;
+        case 'autoRefresh':
+            return typeof m.enabled === 'boolean' ? { command: m.command, enabled: m.enabled } : undefined;
+        case 'pause':
+        case 'resume':
+            return { command: m.command };
+        default:
+            return undefined;
+    }
+}
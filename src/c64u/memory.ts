@@ -0,0 +1,67 @@
+/**
+ * A range of C64 memory.
+ */
+export interface MemoryRange {
+    start: number;
+    length: number;
+}
+
+/**
+ * Parse a hex number: $d020, 0xd020 or plain d020.
+ */
+export function parseHex(text: string, max = 0xffff): number | undefined {
+    const match = text.trim().match(/^(?:\$|0x)?([0-9a-fA-F]+)$/);
+    if (!match) {
+        return undefined;
+    }
+    const value = parseInt(match[1], 16);
+    return value <= max ? value : undefined;
+}
+
+/**
+ * Parse an address range: "$0400-$07e7" (inclusive end), "$0400+$100"
+ * (start and length) or a single address, which is one byte.
+ */
+export function parseRange(text: string): MemoryRange | undefined {
+    const [startText, separator, restText] = text.split(/([-+])/).map(part => part.trim());
+    const start = parseHex(startText);
+    if (start === undefined) {
+        return undefined;
+    }
+    if (separator === undefined) {
+        return { start, length: 1 };
+    }
+
+    const rest = parseHex(restText ?? '', 0x10000);
+    if (rest === undefined) {
+        return undefined;
+    }
+    const length = separator === '-' ? rest - start + 1 : rest;
+    if (length < 1 || start + length > 0x10000) {
+        return undefined;
+    }
+    return { start, length };
+}
+
+/**
+ * Parse bytes separated by spaces or commas, each in hex: "00 0f $ff".
+ */
+export function parseBytes(text: string): Buffer | undefined {
+    const parts = text.split(/[\s,]+/).filter(Boolean);
+    const values = parts.map(part => parseHex(part, 0xff));
+    if (values.length === 0 || values.some(value => value === undefined)) {
+        return undefined;
+    }
+    return Buffer.from(values as number[]);
+}
+
+export function hex(value: number, digits = 4): string {
+    return value.toString(16).toUpperCase().padStart(digits, '0');
+}
+
+/**
+ * "$D020: 0E 06" style listing of a few bytes.
+ */
+export function formatBytes(start: number, data: Buffer): string {
+    return `$${hex(start)}: ${[...data].map(byte => hex(byte, 2)).join(' ')}`;
+}
@@ -0,0 +1,55 @@
+import * as path from 'path';
+import { C64UCliError, executeC64UOrThrow } from './cli';
+
+/**
+ * Path of an entry in a directory on the Ultimate.
+ */
+export function joinRemotePath(dir: string, name: string): string {
+    return dir === '/' ? `/${name}` : `${dir}/${name}`;
+}
+
+/**
+ * Directory part of a path on the Ultimate.
+ */
+export function remoteParent(remotePath: string): string {
+    return remotePath.substring(0, remotePath.lastIndexOf('/')) || '/';
+}
+
+/**
+ * A name that is not taken in a directory: the name itself, or with _1,
+ * _2, ... before the extension.
+ */
+export function uniqueRemoteName(name: string, existingNames: Set<string>): string {
+    if (!existingNames.has(name)) {
+        return name;
+    }
+    const ext = path.posix.extname(name);
+    const baseName = name.substring(0, name.length - ext.length);
+    let counter = 1;
+    let candidate: string;
+    do {
+        candidate = `${baseName}_${counter++}${ext}`;
+    } while (existingNames.has(candidate));
+    return candidate;
+}
+
+/**
+ * Move a file or directory on the Ultimate. Moves between drives fail with
+ * FTP reply 450, so those are done as a copy and a delete.
+ */
+export async function moveRemote(source: string, destination: string): Promise<void> {
+    try {
+        await executeC64UOrThrow(['fs', 'mv', source, destination]);
+    } catch (error) {
+        if (!(error instanceof C64UCliError) || error.status !== 450) {
+            throw error;
+        }
+        await executeC64UOrThrow(['fs', 'cp', source, destination]);
+        try {
+            await executeC64UOrThrow(['fs', 'rm', source]);
+        } catch (deleteError) {
+            const msg = deleteError instanceof Error ? deleteError.message : String(deleteError);
+            throw new Error(`copied, but the original could not be deleted: ${msg}`);
+        }
+    }
+}
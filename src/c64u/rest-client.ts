@@ -0,0 +1,334 @@
+import * as http from 'http';
+
+/**
+ * Client for the C64 Ultimate REST API (firmware 3.11 and later).
+ *
+ * This module has no dependency on the vscode API so it can be exercised
+ * against a local stub HTTP server. File transfers (list, upload, download,
+ * rename, delete) are not part of the REST API; they go through FTP via the
+ * c64u CLI.
+ */
+
+export interface C64URestOptions {
+    host: string;
+    port?: number;
+    /** Network password, sent as X-Password when set. */
+    password?: string;
+    /** Per-request timeout in milliseconds. */
+    timeoutMs?: number;
+}
+
+export interface RequestOptions {
+    signal?: AbortSignal;
+}
+
+export type MachineAction = 'reset' | 'reboot' | 'pause' | 'resume' | 'poweroff' | 'menu_button';
+export type DriveId = 'a' | 'b';
+export type MountMode = 'readwrite' | 'readonly' | 'unlinked';
+export type DiskImageType = 'd64' | 'd71' | 'd81' | 'dnp';
+export type StreamName = 'video' | 'audio' | 'debug';
+
+export interface C64UVersion {
+    version: string;
+}
+
+export interface C64UDeviceInfo {
+    product: string;
+    firmware_version: string;
+    fpga_version: string;
+    core_version?: string;
+    hostname: string;
+    unique_id?: string;
+}
+
+export interface C64UDrive {
+    enabled: boolean;
+    bus_id: number;
+    type: string;
+    rom?: string;
+    image_file?: string;
+    image_path?: string;
+}
+
+export interface C64UFileInfo {
+    path: string;
+    filename: string;
+    size: number;
+    extension: string;
+}
+
+export class C64URestError extends Error {
+    constructor(
+        message: string,
+        /** HTTP status, undefined when no response was received. */
+        public readonly status?: number,
+        /** Messages from the "errors" array of the response. */
+        public readonly errors: string[] = []
+    ) {
+        super(message);
+        this.name = 'C64URestError';
+    }
+}
+
+interface ApiResponse {
+    errors?: string[];
+}
+
+export class C64URestClient {
+    constructor(private options: C64URestOptions) {}
+
+    // --- About ---
+
+    async version(options?: RequestOptions): Promise<C64UVersion> {
+        return this.requestJson<C64UVersion>('GET', '/v1/version', {}, undefined, options);
+    }
+
+    async info(options?: RequestOptions): Promise<C64UDeviceInfo> {
+        return this.requestJson<C64UDeviceInfo>('GET', '/v1/info', {}, undefined, options);
+    }
+
+    // --- Machine ---
+
+    async machine(action: MachineAction, options?: RequestOptions): Promise<void> {
+        await this.requestJson('PUT', `/v1/machine:${action}`, {}, undefined, options);
+    }
+
+    async readMemory(address: number, length: number, options?: RequestOptions): Promise<Buffer> {
+        return this.request('GET', '/v1/machine:readmem', {
+            address: hex(address),
+            length: String(length)
+        }, undefined, options);
+    }
+
+    async writeMemory(address: number, data: Buffer, options?: RequestOptions): Promise<void> {
+        await this.requestJson('POST', '/v1/machine:writemem', { address: hex(address) }, data, options);
+    }
+
+    // --- Runners ---
+
+    /** Load and run a PRG stored on the Ultimate. */
+    async runPrg(remotePath: string, options?: RequestOptions): Promise<void> {
+        await this.requestJson('PUT', '/v1/runners:run_prg', { file: remotePath }, undefined, options);
+    }
+
+    /** Load and run a PRG sent with the request. */
+    async runPrgData(data: Buffer, options?: RequestOptions): Promise<void> {
+        await this.requestJson('POST', '/v1/runners:run_prg', {}, data, options);
+    }
+
+    /** Load a PRG sent with the request without running it. */
+    async loadPrgData(data: Buffer, options?: RequestOptions): Promise<void> {
+        await this.requestJson('POST', '/v1/runners:load_prg', {}, data, options);
+    }
+
+    async runCrt(remotePath: string, options?: RequestOptions): Promise<void> {
+        await this.requestJson('PUT', '/v1/runners:run_crt', { file: remotePath }, undefined, options);
+    }
+
+    async runCrtData(data: Buffer, options?: RequestOptions): Promise<void> {
+        await this.requestJson('POST', '/v1/runners:run_crt', {}, data, options);
+    }
+
+    async sidPlay(remotePath: string, songNumber?: number, options?: RequestOptions): Promise<void> {
+        await this.requestJson('PUT', '/v1/runners:sidplay', {
+            file: remotePath,
+            ...(songNumber !== undefined ? { songnr: String(songNumber) } : {})
+        }, undefined, options);
+    }
+
+    async sidPlayData(data: Buffer, songNumber?: number, options?: RequestOptions): Promise<void> {
+        await this.requestJson('POST', '/v1/runners:sidplay',
+            songNumber !== undefined ? { songnr: String(songNumber) } : {}, data, options);
+    }
+
+    async modPlay(remotePath: string, options?: RequestOptions): Promise<void> {
+        await this.requestJson('PUT', '/v1/runners:modplay', { file: remotePath }, undefined, options);
+    }
+
+    async modPlayData(data: Buffer, options?: RequestOptions): Promise<void> {
+        await this.requestJson('POST', '/v1/runners:modplay', {}, data, options);
+    }
+
+    // --- Drives ---
+
+    async drives(options?: RequestOptions): Promise<Record<string, C64UDrive>> {
+        const response = await this.requestJson<{ drives: Record<string, C64UDrive>[] }>(
+            'GET', '/v1/drives', {}, undefined, options
+        );
+        // The API returns a list of single-key objects: [{ "a": {...} }, { "b": {...} }]
+        return Object.assign({}, ...(response.drives ?? []));
+    }
+
+    /** Mount a disk image stored on the Ultimate. */
+    async mount(drive: DriveId, imagePath: string, type: string, mode: MountMode, options?: RequestOptions): Promise<void> {
+        await this.requestJson('PUT', `/v1/drives/${drive}:mount`, { image: imagePath, type, mode }, undefined, options);
+    }
+
+    /** Mount a disk image sent with the request. */
+    async mountData(drive: DriveId, data: Buffer, type: string, mode: MountMode, options?: RequestOptions): Promise<void> {
+        await this.requestJson('POST', `/v1/drives/${drive}:mount`, { type, mode }, data, options);
+    }
+
+    async unmount(drive: DriveId, options?: RequestOptions): Promise<void> {
+        await this.requestJson('PUT', `/v1/drives/${drive}:remove`, {}, undefined, options);
+    }
+
+    async resetDrive(drive: DriveId, options?: RequestOptions): Promise<void> {
+        await this.requestJson('PUT', `/v1/drives/${drive}:reset`, {}, undefined, options);
+    }
+
+    // --- Data streams (Ultimate 64 only) ---
+
+    /** Start sending a stream over UDP to host:port. */
+    async startStream(stream: StreamName, target: string, options?: RequestOptions): Promise<void> {
+        await this.requestJson('PUT', `/v1/streams/${stream}:start`, { ip: target }, undefined, options);
+    }
+
+    async stopStream(stream: StreamName, options?: RequestOptions): Promise<void> {
+        await this.requestJson('PUT', `/v1/streams/${stream}:stop`, {}, undefined, options);
+    }
+
+    // --- Files ---
+
+    async fileInfo(remotePath: string, options?: RequestOptions): Promise<C64UFileInfo> {
+        const response = await this.requestJson<{ files: C64UFileInfo }>(
+            'GET', `/v1/files${encodePath(remotePath)}:info`, {}, undefined, options
+        );
+        return response.files;
+    }
+
+    async createDiskImage(
+        remotePath: string,
+        type: DiskImageType,
+        diskName?: string,
+        tracks?: number,
+        options?: RequestOptions
+    ): Promise<void> {
+        const query: Record<string, string> = {};
+        if (diskName) {
+            query.diskname = diskName;
+        }
+        if (tracks !== undefined) {
+            query.tracks = String(tracks);
+        }
+        await this.requestJson('PUT', `/v1/files${encodePath(remotePath)}:create_${type}`, query, undefined, options);
+    }
+
+    // --- Transport ---
+
+    private async requestJson<T extends object = ApiResponse>(
+        method: string,
+        urlPath: string,
+        query: Record<string, string>,
+        body: Buffer | undefined,
+        options: RequestOptions | undefined
+    ): Promise<T> {
+        const raw = await this.request(method, urlPath, query, body, options);
+        const text = raw.toString('utf-8').trim();
+        if (text === '') {
+            return {} as T;
+        }
+
+        let parsed: T & ApiResponse;
+        try {
+            parsed = JSON.parse(text);
+        } catch {
+            throw new C64URestError(`Invalid response from ${urlPath}: ${text.substring(0, 200)}`, 200);
+        }
+
+        if (parsed.errors && parsed.errors.length > 0) {
+            throw new C64URestError(parsed.errors.join('; '), 200, parsed.errors);
+        }
+        return parsed;
+    }
+
+    private request(
+        method: string,
+        urlPath: string,
+        query: Record<string, string>,
+        body: Buffer | undefined,
+        options: RequestOptions | undefined
+    ): Promise<Buffer> {
+        const search = new URLSearchParams(query).toString();
+        const headers: http.OutgoingHttpHeaders = {};
+        if (this.options.password) {
+            headers['X-Password'] = this.options.password;
+        }
+        if (body) {
+            headers['Content-Type'] = 'application/octet-stream';
+            headers['Content-Length'] = body.length;
+        }
+
+        return new Promise((resolve, reject) => {
+            if (options?.signal?.aborted) {
+                reject(new C64URestError('Request cancelled'));
+                return;
+            }
+
+            const req = http.request({
+                host: this.options.host,
+                port: this.options.port ?? 80,
+                method,
+                path: search ? `${urlPath}?${search}` : urlPath,
+                headers,
+                timeout: this.options.timeoutMs ?? 10000,
+                signal: options?.signal
+            }, (res) => {
+                const chunks: Buffer[] = [];
+                res.on('data', (chunk: Buffer) => chunks.push(chunk));
+                res.on('error', (error) => reject(new C64URestError(error.message)));
+                res.on('end', () => {
+                    const data = Buffer.concat(chunks);
+                    const status = res.statusCode ?? 0;
+                    if (status >= 400) {
+                        reject(new C64URestError(
+                            `${method} ${urlPath} failed with HTTP ${status}${describeErrors(data)}`,
+                            status,
+                            parseErrors(data)
+                        ));
+                    } else {
+                        resolve(data);
+                    }
+                });
+            });
+
+            req.on('timeout', () => {
+                req.destroy(new C64URestError(`${method} ${urlPath} timed out`));
+            });
+            req.on('error', (error) => {
+                if (error instanceof C64URestError) {
+                    reject(error);
+                } else if (error.name === 'AbortError') {
+                    reject(new C64URestError('Request cancelled'));
+                } else {
+                    reject(new C64URestError(`Cannot reach C64 Ultimate at ${this.options.host}: ${error.message}`));
+                }
+            });
+
+            req.end(body);
+        });
+    }
+}
+
+function parseErrors(data: Buffer): string[] {
+    try {
+        const parsed = JSON.parse(data.toString('utf-8')) as ApiResponse;
+        return Array.isArray(parsed.errors) ? parsed.errors : [];
+    } catch {
+        return [];
+    }
+}
+
+function describeErrors(data: Buffer): string {
+    const errors = parseErrors(data);
+    return errors.length > 0 ? `: ${errors.join('; ')}` : '';
+}
+
+function encodePath(remotePath: string): string {
+    const segments = remotePath.split('/').filter(segment => segment !== '');
+    return '/' + segments.map(encodeURIComponent).join('/');
+}
+
+function hex(value: number): string {
+    return value.toString(16).padStart(4, '0');
+}
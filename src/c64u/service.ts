@@ -1,52 +1,305 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { executeC64U } from './cli';
 import { FileBrowserProvider } from './fileBrowser';
-
-export class C64UService {
+import { C64UBackend, getC64UBackend } from './backend';
+import { MachineAction } from './rest-client';
+import { C64UDevice, getActiveDevice, getDevices, onDidChangeActiveDevice } from './devices';
+import { firstProgram, runFromImage } from './disk-images';
+import { describeStep, executeDeployment, getDeployConfig, planDeployment } from './deploy';
+import { MemoryRange, formatBytes, hex, parseBytes, parseHex, parseRange } from './memory';
+import { DiskImage, diskFormatFromPath } from '../disk-image';
+import { RunnableKind, pickSidSong, runnableKind } from '../runnable';
+import { parseSidHeader } from '../sid';
+
+export class C64UService implements vscode.Disposable {
     private fileBrowserProvider: FileBrowserProvider;
+    private deployChannel: vscode.OutputChannel | undefined;
+    private memoryChannel: vscode.OutputChannel | undefined;
+    // Set by the Pause machine action, cleared by anything that restarts the CPU
+    private _paused = false;
+    private pausedEmitter = new vscode.EventEmitter<boolean>();
+    /** Fires when the active device is paused or resumed from the extension. */
+    readonly onDidChangePaused: vscode.Event<boolean> = this.pausedEmitter.event;
+    private deviceListener: vscode.Disposable;
 
     constructor() {
         this.fileBrowserProvider = new FileBrowserProvider();
+        this.deviceListener = onDidChangeActiveDevice(() => this.setPaused(false));
+    }
+
+    get paused(): boolean {
+        return this._paused;
     }
 
-    async uploadAndRun(prgPath: string): Promise<void> {
-        const remotePath = `/Temp/${prgPath.split('/').pop()}`;
+    private setPaused(paused: boolean): void {
+        if (paused !== this._paused) {
+            this._paused = paused;
+            this.pausedEmitter.fire(paused);
+        }
+    }
 
+    /**
+     * Run a local PRG on the given device, by default the active one, as set
+     * up in the c64u.deploy settings: extra files are uploaded and a disk
+     * image built with it is mounted on drive A first.
+     */
+    async uploadAndRun(prgPath: string, device: C64UDevice = getActiveDevice(), diskImage?: string): Promise<void> {
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: 'C64 Ultimate',
-            cancellable: false
-        }, async (progress) => {
-            progress.report({ message: 'Uploading PRG...' });
-            const uploadResult = await executeC64U(['fs', 'upload', prgPath, remotePath]);
-
-            if (!uploadResult.success) {
-                vscode.window.showErrorMessage(`Upload failed: ${uploadResult.error}`);
+            title: progressTitle(device),
+            cancellable: true
+        }, async (progress, token) => {
+            try {
+                const backend = getC64UBackend(device);
+                const root = deployRoot(prgPath);
+                const config = getDeployConfig(vscode.Uri.file(prgPath));
+                const steps = planDeployment(prgPath, diskImage, config, root, backend.kind);
+                await executeDeployment(steps, backend, device, progress, token);
+                this.onDidStart(device);
+                vscode.window.showInformationMessage(`Program uploaded and running on ${device.name}`);
+            } catch (error) {
+                if (!token.isCancellationRequested) {
+                    const msg = error instanceof Error ? error.message : String(error);
+                    vscode.window.showErrorMessage(`Failed to run: ${msg}`);
+                }
+            }
+        });
+    }
+
+    /**
+     * Run a local file on the device by its type: PRGs are run, cartridges
+     * started, disk images mounted on drive A and their first program run,
+     * SID and MOD files played.
+     */
+    async runFile(filePath: string, device: C64UDevice = getActiveDevice()): Promise<void> {
+        const name = path.basename(filePath);
+        const kind = runnableKind(filePath);
+        if (!kind) {
+            vscode.window.showErrorMessage(`Cannot run ${name} on the C64 Ultimate`);
+            return;
+        }
+
+        let song: number | undefined;
+        if (kind === 'sid') {
+            try {
+                song = await pickSidSong(parseSidHeader(await fs.promises.readFile(filePath)));
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Cannot play ${name}: ${msg}`);
+                return;
+            }
+            if (song === undefined) {
                 return;
             }
+        }
 
-            progress.report({ message: 'Running on C64...' });
-            const runResult = await executeC64U(['runners', 'run-prg', remotePath]);
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: progressTitle(device),
+            cancellable: true
+        }, async (progress, token) => {
+            progress.report({ message: `Starting ${name}...` });
+            try {
+                const message = await runOnBackend(getC64UBackend(device), kind, filePath, song, token);
+                this.onDidStart(device);
+                vscode.window.showInformationMessage(`${message} on ${device.name}`);
+            } catch (error) {
+                if (!token.isCancellationRequested) {
+                    const msg = error instanceof Error ? error.message : String(error);
+                    vscode.window.showErrorMessage(`Failed to run ${name}: ${msg}`);
+                }
+            }
+        });
+    }
+
+    /**
+     * Dry run of Upload and Run: list what would be transferred and done,
+     * without touching the device.
+     */
+    previewDeployment(prgPath: string, diskImage?: string, device: C64UDevice = getActiveDevice()): void {
+        const backend = getC64UBackend(device);
+        const root = deployRoot(prgPath);
+        const config = getDeployConfig(vscode.Uri.file(prgPath));
+        const steps = planDeployment(prgPath, diskImage, config, root, backend.kind);
+
+        const output = this.deployChannel ??= vscode.window.createOutputChannel('C64 Ultimate Deploy');
+        output.clear();
+        output.appendLine(`Deployment to ${device.name} (${device.host}), dry run:`);
+        steps.forEach((step, i) => output.appendLine(`${i + 1}. ${describeStep(step, root)}`));
+        output.show(true);
+    }
 
-            if (!runResult.success) {
-                vscode.window.showErrorMessage(`Failed to run: ${runResult.error}`);
+    /**
+     * Show the bytes at an address or range; longer ranges go to the output channel.
+     */
+    async peekMemory(): Promise<void> {
+        const range = await inputRange('Address or range to read, e.g. $D020, $0400-$07E7 or $C000+100');
+        if (!range) {
+            return;
+        }
+
+        try {
+            const data = await getC64UBackend().readMemory(range.start, range.length);
+            if (data.length <= 16) {
+                vscode.window.showInformationMessage(formatBytes(range.start, data));
                 return;
             }
+            const output = this.memoryChannel ??= vscode.window.createOutputChannel('C64 Ultimate Memory');
+            for (let offset = 0; offset < data.length; offset += 16) {
+                output.appendLine(formatBytes(range.start + offset, data.subarray(offset, offset + 16)));
+            }
+            output.show(true);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to read memory: ${msg}`);
+        }
+    }
+
+    async pokeMemory(): Promise<void> {
+        const addressText = await vscode.window.showInputBox({
+            prompt: 'Address to write to, e.g. $D020',
+            validateInput: value => parseHex(value) === undefined ? 'Enter a hex address ($0000-$FFFF)' : undefined
+        });
+        if (!addressText) {
+            return;
+        }
+        const address = parseHex(addressText)!;
+
+        const bytesText = await vscode.window.showInputBox({
+            prompt: `Hex bytes to write at $${hex(address)}, e.g. 00 0F FF`,
+            validateInput: value => {
+                const bytes = parseBytes(value);
+                if (!bytes) {
+                    return 'Enter hex bytes separated by spaces or commas';
+                }
+                return address + bytes.length > 0x10000 ? 'Writing past $FFFF' : undefined;
+            }
+        });
+        if (!bytesText) {
+            return;
+        }
+        const data = parseBytes(bytesText)!;
+
+        try {
+            await getC64UBackend().writeMemory(address, data);
+            vscode.window.showInformationMessage(`Wrote ${formatBytes(address, data)}`);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to write memory: ${msg}`);
+        }
+    }
+
+    /**
+     * Write a local file into memory. PRGs go to their load address unless
+     * another one is given.
+     */
+    async loadIntoMemory(uri?: vscode.Uri): Promise<void> {
+        if (!uri) {
+            const picked = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                openLabel: 'Load into Memory',
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri
+            });
+            uri = picked?.[0];
+        }
+        if (!uri) {
+            return;
+        }
+
+        let data: Buffer;
+        try {
+            data = await fs.promises.readFile(uri.fsPath);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to read ${path.basename(uri.fsPath)}: ${msg}`);
+            return;
+        }
+
+        const isPrg = path.extname(uri.fsPath).toLowerCase() === '.prg' && data.length > 2;
+        const addressText = await vscode.window.showInputBox({
+            prompt: isPrg
+                ? `Load address for ${path.basename(uri.fsPath)} (the PRG header says $${hex(data.readUInt16LE(0))})`
+                : `Address to write ${path.basename(uri.fsPath)} (${data.length} bytes) to`,
+            value: isPrg ? `$${hex(data.readUInt16LE(0))}` : undefined,
+            validateInput: value => parseHex(value) === undefined ? 'Enter a hex address ($0000-$FFFF)' : undefined
+        });
+        if (!addressText) {
+            return;
+        }
+
+        const address = parseHex(addressText)!;
+        const contents = isPrg ? data.subarray(2) : data;
+        if (address + contents.length > 0x10000) {
+            vscode.window.showErrorMessage(`${contents.length} bytes at $${hex(address)} run past $FFFF`);
+            return;
+        }
+
+        try {
+            await getC64UBackend().writeMemory(address, contents);
+            vscode.window.showInformationMessage(
+                `Loaded ${path.basename(uri.fsPath)} to $${hex(address)}-$${hex(address + contents.length - 1)}`
+            );
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to write memory: ${msg}`);
+        }
+    }
+
+    /**
+     * Save a memory range to a file; a .prg file gets the start address as header.
+     */
+    async dumpMemory(): Promise<void> {
+        const range = await inputRange('Range to save, e.g. $0400-$07E7 or $C000+1000');
+        if (!range) {
+            return;
+        }
 
-            vscode.window.showInformationMessage('Program uploaded and running on C64 Ultimate');
+        const end = range.start + range.length - 1;
+        const fileName = `memory_${hex(range.start)}-${hex(end)}.bin`;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const saveUri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : vscode.Uri.file(fileName)
         });
+        if (!saveUri) {
+            return;
+        }
+
+        try {
+            let data = await getC64UBackend().readMemory(range.start, range.length);
+            if (path.extname(saveUri.fsPath).toLowerCase() === '.prg') {
+                const header = Buffer.alloc(2);
+                header.writeUInt16LE(range.start);
+                data = Buffer.concat([header, data]);
+            }
+            await fs.promises.writeFile(saveUri.fsPath, data);
+            vscode.window.showInformationMessage(`Saved $${hex(range.start)}-$${hex(end)} to ${saveUri.fsPath}`);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to dump memory: ${msg}`);
+        }
     }
 
     async showFileBrowser(): Promise<void> {
         await this.fileBrowserProvider.show();
     }
 
+    // Running something resets the machine, which ends a pause
+    private onDidStart(device: C64UDevice): void {
+        if (device.name === getActiveDevice().name) {
+            this.setPaused(false);
+        }
+    }
+
     async executeMachineAction(action: string): Promise<void> {
-        const result = await executeC64U(['machine', action]);
-        if (result.success) {
+        try {
+            await getC64UBackend().machine(action as MachineAction);
+            this.setPaused(action === 'pause');
             vscode.window.showInformationMessage(`Machine ${action} executed`);
-        } else {
-            vscode.window.showErrorMessage(`Machine control failed: ${result.error}`);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Machine control failed: ${msg}`);
         }
     }
 
@@ -67,12 +320,7 @@ export class C64UService {
             return;
         }
 
-        const result = await executeC64U(['machine', selected.value]);
-        if (result.success) {
-            vscode.window.showInformationMessage(`Machine ${selected.value} executed`);
-        } else {
-            vscode.window.showErrorMessage(`Machine control failed: ${result.error}`);
-        }
+        await this.executeMachineAction(selected.value);
     }
 
     async uploadFile(): Promise<void> {
@@ -260,11 +508,76 @@ export class C64UService {
             return;
         }
 
-        const result = await executeC64U(['fs', 'cat', filePath]);
-        if (result.success) {
-            vscode.window.showInformationMessage(result.output);
-        } else {
-            vscode.window.showErrorMessage(`Failed to get file info: ${result.error}`);
+        try {
+            vscode.window.showInformationMessage(await getC64UBackend().fileInfo(filePath));
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to get file info: ${msg}`);
+        }
+    }
+
+    dispose(): void {
+        this.deviceListener.dispose();
+        this.pausedEmitter.dispose();
+        this.deployChannel?.dispose();
+        this.memoryChannel?.dispose();
+    }
+}
+
+async function inputRange(prompt: string): Promise<MemoryRange | undefined> {
+    const text = await vscode.window.showInputBox({
+        prompt,
+        validateInput: value => parseRange(value) ? undefined : 'Enter $start, $start-$end or $start+length (hex, within $0000-$FFFF)'
+    });
+    return text ? parseRange(text) : undefined;
+}
+
+// Deploy files are relative to the workspace folder of the program
+function deployRoot(prgPath: string): string {
+    return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(prgPath))?.uri.fsPath ?? path.dirname(prgPath);
+}
+
+// Only name the device when there is more than one
+function progressTitle(device: C64UDevice): string {
+    return getDevices().length > 1 ? `C64 Ultimate (${device.name})` : 'C64 Ultimate';
+}
+
+/**
+ * Start a local file of the given kind. Resolves to what is now running.
+ */
+async function runOnBackend(
+    backend: C64UBackend,
+    kind: RunnableKind,
+    filePath: string,
+    song: number | undefined,
+    token: vscode.CancellationToken
+): Promise<string> {
+    const name = path.basename(filePath);
+    switch (kind) {
+        case 'prg':
+            await backend.runLocalPrg(filePath, token);
+            return `Running ${name}`;
+        case 'crt':
+            await backend.runLocalCrt(filePath, token);
+            return `Running ${name}`;
+        case 'sid':
+            await backend.playLocalSid(filePath, song, token);
+            return `Playing ${name} (song ${song})`;
+        case 'mod':
+            await backend.playLocalMod(filePath, token);
+            return `Playing ${name}`;
+        case 'disk': {
+            await backend.mountLocal('a', filePath, 'readwrite', token);
+            const format = diskFormatFromPath(filePath);
+            const image = format ? DiskImage.parse(await fs.promises.readFile(filePath), format) : undefined;
+            const program = image && firstProgram(image);
+            if (image && program) {
+                await runFromImage(backend, image, program, token);
+                return `Running ${program.name} from ${name}`;
+            }
+            // Nothing to start locally (GCR image or no PRG): reset and let the user load it
+            await backend.machine('reset', token);
+            return `Mounted ${name} on drive A`;
         }
     }
 }
@@ -0,0 +1,441 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { executeC64UOrThrow } from './cli';
+import { C64UClient } from './client';
+import { C64UDevice, getActiveDevice } from './devices';
+import {
+    RemoteTree, SyncConfig, SyncEntry, SyncManifest, SyncTransfer,
+    describeEntry, getSyncConfig, planSync, scanLocal, scanRemote
+} from './sync';
+
+// Wait this long after the last change before auto push starts
+const AUTO_PUSH_DELAY_MS = 1000;
+
+interface SyncSession {
+    device: C64UDevice;
+    localRoot: string;
+    /** Workspace state key of the manifest. */
+    manifestKey: string;
+    remote: RemoteTree;
+    manifest: SyncManifest;
+    entries: SyncEntry[];
+    transfer: SyncTransfer;
+}
+
+interface SyncJob {
+    entry: SyncEntry;
+    direction: 'push' | 'pull';
+}
+
+interface SyncPickItem extends vscode.QuickPickItem {
+    job?: SyncJob;
+}
+
+/**
+ * Two-way sync between a workspace folder and a directory on the active
+ * C64 Ultimate (c64u.sync settings). A manifest in workspace state per
+ * device remembers what both sides looked like after the last sync, so
+ * files changed on both sides are reported as conflicts.
+ */
+export class C64USyncManager implements vscode.Disposable {
+    private running = false;
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private pending = new Set<string>();
+    private pushTimer: NodeJS.Timeout | undefined;
+    // Remote copies opened for comparison, removed on dispose
+    private compareDir: string | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private client: C64UClient, private state: vscode.Memento) {
+        this.updateWatcher();
+        this.disposables.push(vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('c64u.sync') || event.affectsConfiguration('c64u.enabled')) {
+                this.updateWatcher();
+            }
+        }));
+    }
+
+    /**
+     * Choose the local folder and remote directory, stored in the workspace
+     * settings.
+     */
+    async configure(): Promise<boolean> {
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        if (!folder) {
+            vscode.window.showErrorMessage('Open a workspace folder to set up sync');
+            return false;
+        }
+        const current = getSyncConfig(folder.uri);
+
+        const picked = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            defaultUri: vscode.Uri.file(path.resolve(folder.uri.fsPath, current.localDir)),
+            openLabel: 'Sync This Folder'
+        });
+        if (!picked?.[0]) {
+            return false;
+        }
+
+        const remoteDir = await vscode.window.showInputBox({
+            prompt: 'Directory on the C64 Ultimate to sync with',
+            value: current.remoteDir || '/Usb0',
+            validateInput: value => /^\/[^/]/.test(value) ? undefined : 'Enter a directory below /, e.g. /Usb0/project'
+        });
+        if (!remoteDir) {
+            return false;
+        }
+
+        const relative = path.relative(folder.uri.fsPath, picked[0].fsPath);
+        const config = vscode.workspace.getConfiguration('c64u.sync', folder.uri);
+        await config.update('localDir', relative.startsWith('..') ? picked[0].fsPath : relative || '.', vscode.ConfigurationTarget.Workspace);
+        await config.update('remoteDir', remoteDir.replace(/\/+$/, ''), vscode.ConfigurationTarget.Workspace);
+        return true;
+    }
+
+    /**
+     * Show the differences and copy the chosen files, either way.
+     */
+    async synchronize(): Promise<void> {
+        const session = await this.prepare(true);
+        if (!session) {
+            return;
+        }
+        try {
+            if (session.entries.length === 0) {
+                vscode.window.showInformationMessage('Local folder and C64 Ultimate are in sync');
+                return;
+            }
+
+            const jobs = await this.pickJobs(session);
+            if (jobs) {
+                await this.execute(session, jobs, 'Synchronizing');
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Copy local changes to the Ultimate, or remote changes to the local
+     * folder. Conflicts are reported and left alone.
+     */
+    async transfer(direction: 'push' | 'pull'): Promise<void> {
+        const session = await this.prepare(true);
+        if (!session) {
+            return;
+        }
+        try {
+            const jobs = session.entries
+                .filter(entry => entry.action === direction)
+                .map(entry => ({ entry, direction }));
+            this.reportConflicts(session.entries.filter(entry => entry.action === 'conflict'));
+            if (jobs.length === 0) {
+                vscode.window.showInformationMessage(direction === 'push'
+                    ? 'No local changes to push'
+                    : 'No changes on the C64 Ultimate to pull');
+                return;
+            }
+            await this.execute(session, jobs, direction === 'push' ? 'Pushing' : 'Pulling');
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Scan both sides and compare them with the manifest. Sets up the sync
+     * first when it is not configured and the user asked for it. A returned
+     * session holds `running` until the caller resets it, so no other sync
+     * can change the manifest while this one works on its copy.
+     */
+    private async prepare(interactive: boolean): Promise<SyncSession | undefined> {
+        if (this.running) {
+            if (interactive) {
+                vscode.window.showInformationMessage('A sync is already running');
+            }
+            return undefined;
+        }
+
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        let config = folder && getSyncConfig(folder.uri);
+        if (folder && interactive && (!config?.localDir || !config.remoteDir)) {
+            if (!await this.configure()) {
+                return undefined;
+            }
+            config = getSyncConfig(folder.uri);
+        }
+        if (!folder || !config?.localDir || !config.remoteDir) {
+            return undefined;
+        }
+
+        const device = getActiveDevice();
+        const localRoot = path.resolve(folder.uri.fsPath, config.localDir);
+        const remoteRoot = config.remoteDir;
+        this.running = true;
+        try {
+            const [local, remote] = await vscode.window.withProgress({
+                location: interactive ? vscode.ProgressLocation.Notification : vscode.ProgressLocation.Window,
+                title: `Comparing ${path.basename(localRoot)} with ${remoteRoot} on ${device.name}...`
+            }, async () => Promise.all([
+                scanLocal(localRoot).catch(error => {
+                    const msg = error instanceof Error ? error.message : String(error);
+                    throw new Error(`Cannot read ${localRoot}: ${msg}`);
+                }),
+                scanRemote(this.client, remoteRoot).catch(() => {
+                    throw new Error(`Cannot list ${remoteRoot} on ${device.name}; check that the directory exists`);
+                })
+            ]));
+
+            const key = manifestKey(device, config, localRoot);
+            const manifest = { ...this.state.get<SyncManifest>(key, {}) };
+            return {
+                device,
+                localRoot,
+                manifestKey: key,
+                remote,
+                manifest,
+                entries: planSync(local, remote.files, manifest),
+                transfer: new SyncTransfer(localRoot, remoteRoot, remote.dirs, manifest, device)
+            };
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            if (interactive) {
+                vscode.window.showErrorMessage(`Sync failed: ${msg}`);
+            } else {
+                vscode.window.setStatusBarMessage(`$(warning) Auto push failed: ${msg}`, 5000);
+            }
+            this.running = false;
+            return undefined;
+        }
+    }
+
+    private async pickJobs(session: SyncSession): Promise<SyncJob[] | undefined> {
+        const item = (entry: SyncEntry, direction: 'push' | 'pull', description: string): SyncPickItem => ({
+            label: `$(${direction === 'push' ? 'arrow-up' : 'arrow-down'}) ${entry.path}`,
+            description,
+            buttons: [{ iconPath: new vscode.ThemeIcon('diff'), tooltip: 'Compare' }],
+            job: { entry, direction }
+        });
+        const group = (label: string, items: SyncPickItem[]): SyncPickItem[] =>
+            items.length > 0 ? [{ label, kind: vscode.QuickPickItemKind.Separator }, ...items] : [];
+
+        const pushes = session.entries.filter(entry => entry.action === 'push').map(entry => item(entry, 'push', describeEntry(entry)));
+        const pulls = session.entries.filter(entry => entry.action === 'pull').map(entry => item(entry, 'pull', describeEntry(entry)));
+        const conflicts = session.entries.filter(entry => entry.action === 'conflict').flatMap(entry => [
+            item(entry, 'push', `${describeEntry(entry)}: keep local`),
+            item(entry, 'pull', `${describeEntry(entry)}: keep the Ultimate's`)
+        ]);
+
+        const quickPick = vscode.window.createQuickPick<SyncPickItem>();
+        quickPick.title = `Sync ${path.basename(session.localRoot)} with ${session.transfer.remotePath('')} on ${session.device.name}`;
+        quickPick.placeholder = 'Select the files to copy (conflicts are not selected)';
+        quickPick.canSelectMany = true;
+        // Stays open while Compare shows a file
+        quickPick.ignoreFocusOut = true;
+        quickPick.items = [
+            ...group('Push to C64 Ultimate', pushes),
+            ...group('Pull from C64 Ultimate', pulls),
+            ...group('Conflicts: changed on both sides', conflicts)
+        ];
+        quickPick.selectedItems = [...pushes, ...pulls];
+
+        const selected = await new Promise<readonly SyncPickItem[] | undefined>(resolve => {
+            quickPick.onDidTriggerItemButton(event => {
+                if (event.item.job) {
+                    void this.compare(session, event.item.job.entry);
+                }
+            });
+            quickPick.onDidAccept(() => {
+                resolve(quickPick.selectedItems);
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                resolve(undefined);
+                quickPick.dispose();
+            });
+            quickPick.show();
+        });
+        if (!selected) {
+            return undefined;
+        }
+
+        const jobs = selected.flatMap(picked => picked.job ? [picked.job] : []);
+        const both = jobs.filter(job => jobs.some(other => other.entry === job.entry && other.direction !== job.direction));
+        if (both.length > 0) {
+            vscode.window.showWarningMessage(`Skipped ${both[0].entry.path}: both sides were selected`);
+        }
+        return jobs.filter(job => !both.includes(job));
+    }
+
+    /**
+     * Open the remote copy of a file against the local one, keeping the
+     * focus on the quick pick.
+     */
+    private async compare(session: SyncSession, entry: SyncEntry): Promise<void> {
+        const localUri = vscode.Uri.file(session.transfer.localPath(entry.path));
+        const options: vscode.TextDocumentShowOptions = { preserveFocus: true, preview: true };
+        if (!session.remote.files.has(entry.path)) {
+            await vscode.commands.executeCommand('vscode.open', localUri, options);
+            return;
+        }
+
+        try {
+            this.compareDir ??= await fs.promises.mkdtemp(path.join(os.tmpdir(), 'c64u-sync-'));
+            const remoteCopy = path.join(this.compareDir, ...entry.path.split('/'));
+            await fs.promises.mkdir(path.dirname(remoteCopy), { recursive: true });
+            await executeC64UOrThrow(['fs', 'download', session.transfer.remotePath(entry.path), remoteCopy], session.device);
+            const remoteUri = vscode.Uri.file(remoteCopy);
+            if (fs.existsSync(localUri.fsPath)) {
+                await vscode.commands.executeCommand('vscode.diff', remoteUri, localUri,
+                    `${path.basename(entry.path)} (C64 Ultimate ↔ Local)`, options);
+            } else {
+                await vscode.commands.executeCommand('vscode.open', remoteUri, options);
+            }
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to download ${entry.path}: ${msg}`);
+        }
+    }
+
+    /**
+     * Carry out the jobs one file at a time, saving the manifest after each.
+     * 'record' entries of the session are applied along the way. The caller
+     * holds `running` from prepare().
+     */
+    private async execute(session: SyncSession, jobs: SyncJob[], title: string, quiet = false): Promise<void> {
+        const failures: string[] = [];
+        let done = 0;
+
+        for (const entry of session.entries.filter(entry => entry.action === 'record')) {
+            await session.transfer.record(entry.path, session.remote.files.get(entry.path));
+        }
+
+        await vscode.window.withProgress({
+            location: quiet ? vscode.ProgressLocation.Window : vscode.ProgressLocation.Notification,
+            title: `${title} with ${session.device.name}`,
+            cancellable: !quiet
+        }, async (progress, token) => {
+            for (const job of jobs) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                progress.report({ message: job.entry.path, increment: 100 / jobs.length });
+                try {
+                    if (job.direction === 'push') {
+                        await session.transfer.push(job.entry.path);
+                    } else {
+                        await session.transfer.pull(job.entry.path, session.remote.files.get(job.entry.path));
+                    }
+                    done++;
+                } catch (error) {
+                    const msg = error instanceof Error ? error.message : String(error);
+                    failures.push(`${job.entry.path}: ${msg}`);
+                }
+                await this.state.update(session.manifestKey, session.manifest);
+            }
+        });
+        await this.state.update(session.manifestKey, session.manifest);
+
+        if (failures.length > 0) {
+            vscode.window.showErrorMessage(`Failed to sync ${failures.length} file(s). ${failures.slice(0, 3).join('; ')}`);
+        }
+        if (done > 0) {
+            vscode.window.setStatusBarMessage(`$(sync) Synced ${done} file(s) with ${session.device.name}`, 3000);
+        } else if (!quiet && failures.length === 0) {
+            vscode.window.showInformationMessage('Nothing was synced');
+        }
+        if (jobs.some(job => job.direction === 'push')) {
+            void vscode.commands.executeCommand('c64u.treeview.refresh');
+        }
+    }
+
+    private reportConflicts(conflicts: SyncEntry[]): void {
+        if (conflicts.length === 0) {
+            return;
+        }
+        const names = conflicts.slice(0, 3).map(entry => entry.path).join(', ');
+        const more = conflicts.length > 3 ? ` and ${conflicts.length - 3} more` : '';
+        vscode.window.showWarningMessage(
+            `Skipped ${conflicts.length} file(s) changed both locally and on the C64 Ultimate: ${names}${more}`,
+            'Synchronize...'
+        ).then(choice => {
+            if (choice) {
+                void this.synchronize();
+            }
+        });
+    }
+
+    // Auto push: watch the local folder while c64u.sync.autoPush is on
+    private updateWatcher(): void {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+
+        const folder = vscode.workspace.workspaceFolders?.[0];
+        const config = folder && getSyncConfig(folder.uri);
+        const enabled = vscode.workspace.getConfiguration('c64u').get<boolean>('enabled', false);
+        if (!folder || !enabled || !config?.autoPush || !config.localDir || !config.remoteDir) {
+            return;
+        }
+
+        const localRoot = path.resolve(folder.uri.fsPath, config.localDir);
+        this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(localRoot, '**/*'));
+        const queue = (uri: vscode.Uri) => {
+            const relative = path.relative(localRoot, uri.fsPath).split(path.sep).join('/');
+            if (relative.startsWith('..') || relative.split('/').some(part => part.startsWith('.'))) {
+                return;
+            }
+            this.pending.add(relative);
+            if (this.pushTimer) {
+                clearTimeout(this.pushTimer);
+            }
+            this.pushTimer = setTimeout(() => void this.autoPush(), AUTO_PUSH_DELAY_MS);
+        };
+        this.watcher.onDidChange(queue);
+        this.watcher.onDidCreate(queue);
+    }
+
+    private async autoPush(): Promise<void> {
+        this.pushTimer = undefined;
+        if (this.running) {
+            // Try again once the running sync is done
+            this.pushTimer = setTimeout(() => void this.autoPush(), AUTO_PUSH_DELAY_MS);
+            return;
+        }
+
+        const paths = this.pending;
+        this.pending = new Set();
+        const session = await this.prepare(false);
+        if (!session) {
+            return;
+        }
+        try {
+            const entries = session.entries.filter(entry => paths.has(entry.path));
+            this.reportConflicts(entries.filter(entry => entry.action === 'conflict'));
+            const jobs = entries
+                .filter(entry => entry.action === 'push')
+                .map(entry => ({ entry, direction: 'push' as const }));
+            if (jobs.length > 0) {
+                await this.execute(session, jobs, 'Pushing', true);
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    dispose(): void {
+        if (this.pushTimer) {
+            clearTimeout(this.pushTimer);
+        }
+        this.watcher?.dispose();
+        this.disposables.forEach(d => d.dispose());
+        if (this.compareDir) {
+            fs.rmSync(this.compareDir, { recursive: true, force: true });
+        }
+    }
+}
+
+function manifestKey(device: C64UDevice, config: SyncConfig, localRoot: string): string {
+    return `c64u.syncManifest:${device.name}:${config.remoteDir}:${localRoot}`;
+}
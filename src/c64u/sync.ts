@@ -0,0 +1,267 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { executeC64UOrThrow } from './cli';
+import { C64UClient } from './client';
+import { C64UDevice } from './devices';
+
+/**
+ * c64u.sync settings of a workspace folder. localDir is resolved against
+ * the folder; both are empty until a sync was set up.
+ */
+export interface SyncConfig {
+    localDir: string;
+    remoteDir: string;
+    autoPush: boolean;
+}
+
+/**
+ * Sizes and local modification time of a file when it was last synced.
+ * The Ultimate's listings carry no timestamps, so remote changes are
+ * detected by size.
+ */
+export interface ManifestEntry {
+    localSize: number;
+    localMtime: number;
+    remoteSize: number;
+}
+
+/** Manifest entries by path relative to the synced folders, '/' separated. */
+export type SyncManifest = Record<string, ManifestEntry>;
+
+export interface LocalFile {
+    size: number;
+    mtime: number;
+}
+
+export interface RemoteTree {
+    files: Map<string, number>;
+    /** Directories that exist, '' being the synced directory itself. */
+    dirs: Set<string>;
+}
+
+/** What happened to a file on one side since the last sync. */
+export type SideState = 'absent' | 'unchanged' | 'added' | 'modified' | 'deleted';
+
+/**
+ * 'record' entries need no transfer, only a manifest update: the file
+ * appeared on both sides with the same size, or is gone from both.
+ */
+export type SyncAction = 'push' | 'pull' | 'conflict' | 'record';
+
+export interface SyncEntry {
+    path: string;
+    local: SideState;
+    remote: SideState;
+    action: SyncAction;
+}
+
+export function getSyncConfig(scope?: vscode.Uri): SyncConfig {
+    const config = vscode.workspace.getConfiguration('c64u.sync', scope);
+    return {
+        localDir: config.get<string>('localDir', ''),
+        remoteDir: config.get<string>('remoteDir', '').replace(/\/+$/, ''),
+        autoPush: config.get<boolean>('autoPush', false)
+    };
+}
+
+/**
+ * Files below a local directory by relative path. Names starting with a dot
+ * are left out, as are symbolic links.
+ */
+export async function scanLocal(root: string): Promise<Map<string, LocalFile>> {
+    const files = new Map<string, LocalFile>();
+    const walk = async (dir: string, prefix: string) => {
+        for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+            if (entry.name.startsWith('.')) {
+                continue;
+            }
+            const relative = prefix + entry.name;
+            if (entry.isDirectory()) {
+                await walk(path.join(dir, entry.name), `${relative}/`);
+            } else if (entry.isFile()) {
+                const stat = await fs.promises.stat(path.join(dir, entry.name));
+                files.set(relative, { size: stat.size, mtime: stat.mtimeMs });
+            }
+        }
+    };
+    await walk(root, '');
+    return files;
+}
+
+/**
+ * Files and directories below a directory on the Ultimate, one listing per
+ * directory.
+ */
+export async function scanRemote(client: C64UClient, root: string): Promise<RemoteTree> {
+    const tree: RemoteTree = { files: new Map(), dirs: new Set(['']) };
+    const walk = async (dir: string, prefix: string) => {
+        for (const file of await client.listFiles(dir || '/')) {
+            if (file.name.startsWith('.')) {
+                continue;
+            }
+            const relative = prefix + file.name;
+            if (file.is_dir) {
+                tree.dirs.add(relative);
+                await walk(file.path, `${relative}/`);
+            } else {
+                tree.files.set(relative, file.size);
+            }
+        }
+    };
+    await walk(root, '');
+    return tree;
+}
+
+/**
+ * Compare both sides with the manifest. Files changed on one side only are
+ * copied to the other; files changed on both are conflicts. Unchanged
+ * files are left out.
+ */
+export function planSync(
+    local: Map<string, LocalFile>,
+    remote: Map<string, number>,
+    manifest: SyncManifest
+): SyncEntry[] {
+    const paths = new Set([...local.keys(), ...remote.keys(), ...Object.keys(manifest)]);
+    const entries: SyncEntry[] = [];
+
+    for (const file of [...paths].sort()) {
+        const synced = manifest[file];
+        const localFile = local.get(file);
+        const remoteSize = remote.get(file);
+
+        const localState = sideState(synced !== undefined, localFile !== undefined,
+            !!synced && !!localFile && (localFile.size !== synced.localSize || localFile.mtime !== synced.localMtime));
+        const remoteState = sideState(synced !== undefined, remoteSize !== undefined,
+            !!synced && remoteSize !== undefined && remoteSize !== synced.remoteSize);
+
+        const action = syncAction(localState, remoteState, localFile?.size === remoteSize);
+        if (action) {
+            entries.push({ path: file, local: localState, remote: remoteState, action });
+        }
+    }
+    return entries;
+}
+
+function sideState(synced: boolean, exists: boolean, changed: boolean): SideState {
+    if (!exists) {
+        return synced ? 'deleted' : 'absent';
+    }
+    if (!synced) {
+        return 'added';
+    }
+    return changed ? 'modified' : 'unchanged';
+}
+
+function syncAction(local: SideState, remote: SideState, sameSize: boolean): SyncAction | undefined {
+    const localQuiet = local === 'absent' || local === 'unchanged';
+    const remoteQuiet = remote === 'absent' || remote === 'unchanged';
+    if (localQuiet && remoteQuiet) {
+        return undefined;
+    }
+    if (remoteQuiet) {
+        return 'push';
+    }
+    if (localQuiet) {
+        return 'pull';
+    }
+    if (local === 'deleted' && remote === 'deleted') {
+        return 'record';
+    }
+    // Added on both sides: the same size is taken to be the same file
+    if (local === 'added' && remote === 'added' && sameSize) {
+        return 'record';
+    }
+    return 'conflict';
+}
+
+/**
+ * Short description of an entry, e.g. "modified locally" or
+ * "deleted on the Ultimate".
+ */
+export function describeEntry(entry: SyncEntry): string {
+    const changes: string[] = [];
+    if (entry.local !== 'absent' && entry.local !== 'unchanged') {
+        changes.push(`${entry.local} locally`);
+    }
+    if (entry.remote !== 'absent' && entry.remote !== 'unchanged') {
+        changes.push(`${entry.remote} on the Ultimate`);
+    }
+    return changes.join(', ');
+}
+
+/**
+ * Copies files between a local and a remote directory and keeps the
+ * manifest up to date after each one.
+ */
+export class SyncTransfer {
+    constructor(
+        private localRoot: string,
+        private remoteRoot: string,
+        private remoteDirs: Set<string>,
+        private manifest: SyncManifest,
+        private device: C64UDevice
+    ) {}
+
+    localPath(file: string): string {
+        return path.join(this.localRoot, ...file.split('/'));
+    }
+
+    remotePath(file: string): string {
+        return `${this.remoteRoot}/${file}`;
+    }
+
+    /** Make the remote side match the local one. */
+    async push(file: string): Promise<void> {
+        const localPath = this.localPath(file);
+        let stat: fs.Stats;
+        try {
+            stat = await fs.promises.stat(localPath);
+        } catch {
+            await executeC64UOrThrow(['fs', 'rm', this.remotePath(file)], this.device);
+            delete this.manifest[file];
+            return;
+        }
+
+        await this.makeRemoteDirs(file);
+        await executeC64UOrThrow(['fs', 'upload', localPath, this.remotePath(file)], this.device);
+        this.manifest[file] = { localSize: stat.size, localMtime: stat.mtimeMs, remoteSize: stat.size };
+    }
+
+    /** Make the local side match the remote one; remoteSize is undefined when it is gone. */
+    async pull(file: string, remoteSize: number | undefined): Promise<void> {
+        const localPath = this.localPath(file);
+        if (remoteSize === undefined) {
+            await fs.promises.rm(localPath, { force: true });
+            delete this.manifest[file];
+            return;
+        }
+
+        await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+        await executeC64UOrThrow(['fs', 'download', this.remotePath(file), localPath], this.device);
+        const stat = await fs.promises.stat(localPath);
+        this.manifest[file] = { localSize: stat.size, localMtime: stat.mtimeMs, remoteSize };
+    }
+
+    /** Take over the current state of both sides without copying. */
+    async record(file: string, remoteSize: number | undefined): Promise<void> {
+        const stat = await fs.promises.stat(this.localPath(file)).catch(() => undefined);
+        if (!stat || remoteSize === undefined) {
+            delete this.manifest[file];
+            return;
+        }
+        this.manifest[file] = { localSize: stat.size, localMtime: stat.mtimeMs, remoteSize };
+    }
+
+    private async makeRemoteDirs(file: string): Promise<void> {
+        const parts = file.split('/').slice(0, -1);
+        for (let i = 1; i <= parts.length; i++) {
+            const dir = parts.slice(0, i).join('/');
+            if (!this.remoteDirs.has(dir)) {
+                await executeC64UOrThrow(['fs', 'mkdir', this.remotePath(dir)], this.device);
+                this.remoteDirs.add(dir);
+            }
+        }
+    }
+}
@@ -1,37 +1,42 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { C64UTreeItem } from './treeview';
-import { C64UClient } from './client';
+import * as fs from 'fs';
+import * as os from 'os';
+import { C64UTreeItem, isRemoteEntry } from './treeview';
+import { C64UClient, C64UFile } from './client';
+import { C64UBatchRunner } from './batch';
+import { joinRemotePath, moveRemote, remoteParent, uniqueRemoteName } from './remote-files';
 import { C64UFileOpenManager } from './file-open-manager';
+import { getC64UBackend } from './backend';
+import { DiskImageType, DriveId, MountMode } from './rest-client';
+import { C64UDiskImageCache, firstProgram, runFromImage } from './disk-images';
+import { pickSidSong } from '../runnable';
+import { parseSidHeader } from '../sid';
 
-export class C64UTreeViewActions implements vscode.Disposable {
-    private fileOpenManager: C64UFileOpenManager;
+export class C64UTreeViewActions {
+    private fileOpenManager = new C64UFileOpenManager();
 
     constructor(
         private client: C64UClient,
-        private refreshCallback: () => void,
-        extensionStoragePath: string
-    ) {
-        this.fileOpenManager = new C64UFileOpenManager(extensionStoragePath);
-    }
+        /** Reloads a directory of the tree after its contents changed. */
+        private refreshCallback: (dirPath: string) => void,
+        private diskImages: C64UDiskImageCache,
+        private batch: C64UBatchRunner
+    ) {}
 
     // Open file in editor (text or hex)
     async openFile(item: C64UTreeItem): Promise<void> {
         await this.fileOpenManager.openFile(item.resourcePath, item.label as string);
     }
 
-    dispose(): void {
-        this.fileOpenManager.dispose();
-    }
-
-    // Navigation
-    async navigate(item: C64UTreeItem): Promise<void> {
-        // Navigation is handled by the tree item command
-        this.refreshCallback();
-    }
+    // File Operations; with several items selected, these work on all of them
+    async deleteFile(item: C64UTreeItem, selected?: readonly C64UTreeItem[]): Promise<void> {
+        const items = selection(item, selected);
+        if (items.length > 1) {
+            await this.deleteFiles(items);
+            return;
+        }
 
-    // File Operations
-    async deleteFile(item: C64UTreeItem): Promise<void> {
         const confirmation = await vscode.window.showWarningMessage(
             `Delete "${item.label}"?`,
             { modal: true },
@@ -45,12 +50,30 @@ export class C64UTreeViewActions implements vscode.Disposable {
         try {
             await this.execC64U(['fs', 'rm', item.resourcePath]);
             vscode.window.showInformationMessage(`Deleted: ${item.label}`);
-            this.refreshCallback();
+            this.refreshCallback(path.dirname(item.resourcePath));
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to delete: ${error}`);
         }
     }
 
+    private async deleteFiles(items: C64UTreeItem[]): Promise<void> {
+        const confirmation = await vscode.window.showWarningMessage(
+            `Delete ${items.length} items?`,
+            { modal: true, detail: listNames(items) },
+            'Delete'
+        );
+
+        if (confirmation !== 'Delete') {
+            return;
+        }
+
+        await this.batch.run(`Deleting ${items.length} items`, items.map(target => ({
+            label: target.resourcePath,
+            run: () => this.execC64U(['fs', 'rm', target.resourcePath])
+        })));
+        new Set(items.map(target => remoteParent(target.resourcePath))).forEach(dir => this.refreshCallback(dir));
+    }
+
     async renameFile(item: C64UTreeItem): Promise<void> {
         const newName = await vscode.window.showInputBox({
             prompt: 'Enter new name',
@@ -76,13 +99,19 @@ export class C64UTreeViewActions implements vscode.Disposable {
         try {
             await this.execC64U(['fs', 'mv', item.resourcePath, newPath]);
             vscode.window.showInformationMessage(`Renamed to: ${newName}`);
-            this.refreshCallback();
+            this.refreshCallback(parentPath);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to rename: ${error}`);
         }
     }
 
-    async copyFile(item: C64UTreeItem): Promise<void> {
+    async copyFile(item: C64UTreeItem, selected?: readonly C64UTreeItem[]): Promise<void> {
+        const items = selection(item, selected);
+        if (items.length > 1) {
+            await this.transferTo('copy', items);
+            return;
+        }
+
         const newName = await vscode.window.showInputBox({
             prompt: 'Enter destination name',
             value: `${item.label}.copy`,
@@ -111,12 +140,126 @@ export class C64UTreeViewActions implements vscode.Disposable {
         try {
             await this.execC64U(['fs', 'cp', item.resourcePath, newPath]);
             vscode.window.showInformationMessage(`Copied to: ${newName}`);
-            this.refreshCallback();
+            this.refreshCallback(parentPath);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to copy: ${error}`);
         }
     }
 
+    async copyTo(item: C64UTreeItem, selected?: readonly C64UTreeItem[]): Promise<void> {
+        await this.transferTo('copy', selection(item, selected));
+    }
+
+    async moveTo(item: C64UTreeItem, selected?: readonly C64UTreeItem[]): Promise<void> {
+        await this.transferTo('move', selection(item, selected));
+    }
+
+    // Copy or move items into a directory picked on the Ultimate
+    private async transferTo(mode: 'copy' | 'move', items: C64UTreeItem[]): Promise<void> {
+        const verb = mode === 'copy' ? 'Copy' : 'Move';
+        const destination = await this.pickRemoteDirectory(
+            `${verb} ${items.length === 1 ? items[0].label : `${items.length} items`} to`,
+            remoteParent(items[0].resourcePath)
+        );
+        if (!destination) {
+            return;
+        }
+
+        // Nothing to do for items already there, and a directory cannot go into itself
+        const sources = items.filter(item => remoteParent(item.resourcePath) !== destination
+            && destination !== item.resourcePath && !destination.startsWith(`${item.resourcePath}/`));
+        if (sources.length === 0) {
+            vscode.window.showWarningMessage(`Select a directory other than ${destination}`);
+            return;
+        }
+
+        let existingNames: Set<string>;
+        try {
+            existingNames = new Set((await this.client.listFiles(destination)).map(file => file.name));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to list ${destination}: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        const conflicts = sources.filter(item => existingNames.has(path.posix.basename(item.resourcePath)));
+        let choice: string | undefined = 'Replace';
+        if (conflicts.length > 0) {
+            choice = await vscode.window.showWarningMessage(
+                `${conflicts.length} of ${sources.length} items already exist in ${destination}`,
+                { modal: true, detail: listNames(conflicts) },
+                'Replace', 'Keep Both', 'Skip'
+            );
+            if (!choice) {
+                return;
+            }
+        }
+
+        const targets = choice === 'Skip' ? sources.filter(item => !conflicts.includes(item)) : sources;
+        await this.batch.run(`${mode === 'copy' ? 'Copying' : 'Moving'} ${targets.length} items to ${destination}`, targets.map(item => {
+            const fileName = path.posix.basename(item.resourcePath);
+            // Keep Both numbers the new copy like drag and drop does
+            const finalName = choice === 'Keep Both' ? uniqueRemoteName(fileName, existingNames) : fileName;
+            existingNames.add(finalName);
+            return {
+                label: item.resourcePath,
+                run: async () => {
+                    const target = joinRemotePath(destination, finalName);
+                    if (choice === 'Replace' && conflicts.includes(item)) {
+                        await this.execC64U(['fs', 'rm', target]);
+                    }
+                    if (mode === 'copy') {
+                        await this.execC64U(['fs', 'cp', item.resourcePath, target]);
+                    } else {
+                        await moveRemote(item.resourcePath, target);
+                    }
+                    return finalName !== fileName ? `as ${finalName}` : undefined;
+                }
+            };
+        }));
+
+        this.refreshCallback(destination);
+        if (mode === 'move') {
+            new Set(targets.map(item => remoteParent(item.resourcePath))).forEach(dir => this.refreshCallback(dir));
+        }
+    }
+
+    /**
+     * Browse the Ultimate's directories in a quick pick. Files cannot go in
+     * the root, so it can be browsed but not picked.
+     */
+    private async pickRemoteDirectory(title: string, startDir: string): Promise<string | undefined> {
+        let dir = startDir;
+        for (;;) {
+            let entries: C64UFile[];
+            try {
+                entries = await this.client.listFiles(dir);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to list ${dir}: ${error instanceof Error ? error.message : String(error)}`);
+                return undefined;
+            }
+
+            const choices: (vscode.QuickPickItem & { dir: string; use?: boolean })[] = [];
+            if (dir !== '/') {
+                choices.push(
+                    { label: '$(check) Use This Directory', description: dir, dir, use: true },
+                    { label: '$(arrow-up) ..', dir: remoteParent(dir) }
+                );
+            }
+            choices.push(...entries
+                .filter(entry => entry.is_dir)
+                .map(entry => ({ label: `$(folder) ${entry.name}`, dir: entry.path })));
+
+            const picked = await vscode.window.showQuickPick(choices, { title, placeHolder: dir });
+            if (!picked) {
+                return undefined;
+            }
+            if (picked.use) {
+                return picked.dir;
+            }
+            dir = picked.dir;
+        }
+    }
+
     async createDirectory(parentItem?: C64UTreeItem): Promise<void> {
         const dirName = await vscode.window.showInputBox({
             prompt: 'Enter directory name',
@@ -142,7 +285,7 @@ export class C64UTreeViewActions implements vscode.Disposable {
         try {
             await this.execC64U(['fs', 'mkdir', newPath]);
             vscode.window.showInformationMessage(`Created directory: ${dirName}`);
-            this.refreshCallback();
+            this.refreshCallback(parentPath);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to create directory: ${error}`);
         }
@@ -201,13 +344,13 @@ export class C64UTreeViewActions implements vscode.Disposable {
             ? `/${fileName}.${imageType.value}`
             : `${parentPath}/${fileName}.${imageType.value}`;
 
-        const args = ['files', `create-${imageType.value}`, fullPath, '--name', diskLabel];
+        let tracks: number | undefined;
 
         // Handle special cases
         if (imageType.tracks === 40) {
-            args.push('--tracks', '40');
+            tracks = 40;
         } else if (imageType.value === 'dnp') {
-            const tracks = await vscode.window.showInputBox({
+            const trackInput = await vscode.window.showInputBox({
                 prompt: 'Number of tracks (1-255)',
                 value: '35',
                 validateInput: (value) => {
@@ -219,17 +362,17 @@ export class C64UTreeViewActions implements vscode.Disposable {
                 }
             });
 
-            if (!tracks) {
+            if (!trackInput) {
                 return;
             }
 
-            args.push('--tracks', tracks);
+            tracks = parseInt(trackInput, 10);
         }
 
         try {
-            await this.execC64U(args);
+            await getC64UBackend().createDiskImage(fullPath, imageType.value as DiskImageType | 'g64', diskLabel, tracks);
             vscode.window.showInformationMessage(`Created ${imageType.value.toUpperCase()} image: ${fileName}.${imageType.value}`);
-            this.refreshCallback();
+            this.refreshCallback(parentPath);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to create disk image: ${error}`);
         }
@@ -261,28 +404,8 @@ export class C64UTreeViewActions implements vscode.Disposable {
             return;
         }
 
-        // Determine image type from extension
-        const ext = path.extname(item.label).toLowerCase();
-        let imageType = ext.substring(1); // Remove leading dot
-
-        // Map g64 -> d64, g71 -> d71
-        if (imageType === 'g64') {
-            imageType = 'd64';
-        } else if (imageType === 'g71') {
-            imageType = 'd71';
-        }
-
         try {
-            await this.execC64U([
-                'drives',
-                'mount',
-                drive.value,
-                item.resourcePath,
-                '--type',
-                imageType,
-                '--mode',
-                mode.value
-            ]);
+            await getC64UBackend().mount(drive.value as DriveId, item.resourcePath, mountType(item.label), mode.value as MountMode);
             vscode.window.showInformationMessage(
                 `Mounted ${item.label} on drive ${drive.value.toUpperCase()} (${mode.label})`
             );
@@ -305,7 +428,7 @@ export class C64UTreeViewActions implements vscode.Disposable {
         }
 
         try {
-            await this.execC64U(['drives', 'unmount', drive.value]);
+            await getC64UBackend().unmount(drive.value as DriveId);
             vscode.window.showInformationMessage(`Unmounted drive ${drive.value.toUpperCase()}`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to unmount drive: ${error}`);
@@ -313,7 +436,13 @@ export class C64UTreeViewActions implements vscode.Disposable {
     }
 
     // File Download/Upload
-    async downloadFile(item: C64UTreeItem): Promise<void> {
+    async downloadFile(item: C64UTreeItem, selected?: readonly C64UTreeItem[]): Promise<void> {
+        const items = selection(item, selected);
+        if (items.length > 1 || item.itemType === 'directory') {
+            await this.downloadFiles(items);
+            return;
+        }
+
         const saveUri = await vscode.window.showSaveDialog({
             defaultUri: vscode.Uri.file(item.label),
             filters: {
@@ -333,6 +462,71 @@ export class C64UTreeViewActions implements vscode.Disposable {
         }
     }
 
+    // Download into a local folder; directories come with their contents
+    private async downloadFiles(items: C64UTreeItem[]): Promise<void> {
+        const folder = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            openLabel: 'Download Here'
+        });
+
+        if (!folder?.[0]) {
+            return;
+        }
+
+        let files: { remotePath: string; localPath: string }[];
+        try {
+            files = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: 'Listing files to download...'
+            }, () => this.listDownloads(items, folder[0].fsPath));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to download: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+
+        const existing = files.filter(file => fs.existsSync(file.localPath));
+        if (existing.length > 0) {
+            const choice = await vscode.window.showWarningMessage(
+                `${existing.length} of ${files.length} files already exist in ${folder[0].fsPath}`,
+                { modal: true, detail: existing.slice(0, 10).map(file => path.relative(folder[0].fsPath, file.localPath)).join('\n') },
+                'Overwrite', 'Skip Existing'
+            );
+            if (!choice) {
+                return;
+            }
+            if (choice === 'Skip Existing') {
+                files = files.filter(file => !existing.includes(file));
+            }
+        }
+
+        await this.batch.run(`Downloading ${files.length} files to ${path.basename(folder[0].fsPath)}`, files.map(file => ({
+            label: file.remotePath,
+            run: async () => {
+                await fs.promises.mkdir(path.dirname(file.localPath), { recursive: true });
+                await this.execC64U(['fs', 'download', file.remotePath, file.localPath]);
+            }
+        })));
+    }
+
+    private async listDownloads(items: C64UTreeItem[], localDir: string): Promise<{ remotePath: string; localPath: string }[]> {
+        const files: { remotePath: string; localPath: string }[] = [];
+        const walk = async (remotePath: string, isDir: boolean, localPath: string) => {
+            if (!isDir) {
+                files.push({ remotePath, localPath });
+                return;
+            }
+            for (const entry of await this.client.listFiles(remotePath)) {
+                await walk(entry.path, entry.is_dir, path.join(localPath, entry.name));
+            }
+        };
+        for (const item of items) {
+            await walk(item.resourcePath, item.itemType === 'directory', path.join(localDir, path.posix.basename(item.resourcePath)));
+        }
+        return files;
+    }
+
     async uploadFile(targetDir?: C64UTreeItem): Promise<void> {
         const fileUris = await vscode.window.showOpenDialog({
             canSelectMany: false,
@@ -376,17 +570,57 @@ export class C64UTreeViewActions implements vscode.Disposable {
             }
 
             vscode.window.showInformationMessage(`Uploaded: ${fileName}`);
-            this.refreshCallback();
+            this.refreshCallback(targetPath);
         } catch (error) {
             console.error(`[C64U Upload] Error:`, error);
             vscode.window.showErrorMessage(`Failed to upload: ${error}`);
         }
     }
 
+    // Files inside disk images
+    async extractFromDiskImage(item: C64UTreeItem): Promise<void> {
+        if (!item.diskEntry) {
+            return;
+        }
+        const { imagePath, file } = item.diskEntry;
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = localFileName(file.name, file.type);
+        const saveUri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : vscode.Uri.file(fileName)
+        });
+
+        if (!saveUri) {
+            return;
+        }
+
+        try {
+            const image = await this.diskImages.load(imagePath);
+            await fs.promises.writeFile(saveUri.fsPath, image.readFile(file));
+            vscode.window.showInformationMessage(`Extracted ${file.name} to: ${saveUri.fsPath}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to extract ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async runFromDiskImage(item: C64UTreeItem): Promise<void> {
+        if (!item.diskEntry) {
+            return;
+        }
+        const { imagePath, file } = item.diskEntry;
+
+        try {
+            await runFromImage(getC64UBackend(), await this.diskImages.load(imagePath), file);
+            vscode.window.showInformationMessage(`Running: ${file.name}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to run ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     // Program Execution
     async runProgram(item: C64UTreeItem): Promise<void> {
         try {
-            await this.execC64U(['runners', 'run-prg', item.resourcePath]);
+            await getC64UBackend().runPrg(item.resourcePath);
             vscode.window.showInformationMessage(`Running: ${item.label}`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to run program: ${error}`);
@@ -396,20 +630,108 @@ export class C64UTreeViewActions implements vscode.Disposable {
     // Cardridge Execution
     async runCrt(item: C64UTreeItem): Promise<void> {
         try {
-            await this.execC64U(['runners', 'run-crt', item.resourcePath]);
+            await getC64UBackend().runCrt(item.resourcePath);
             vscode.window.showInformationMessage(`Running: ${item.label}`);
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to run cardridge: ${error}`);
         }
     }
 
+    // Mount on drive A and start the first program, like the Ultimate's own "Run Disk"
+    async runDiskImage(item: C64UTreeItem): Promise<void> {
+        const backend = getC64UBackend();
+        try {
+            await backend.mount('a', item.resourcePath, mountType(item.label), 'readwrite');
+
+            const image = C64UDiskImageCache.isSupported(item.resourcePath)
+                ? await this.diskImages.load(item.resourcePath)
+                : undefined;
+            const program = image && firstProgram(image);
+            if (image && program) {
+                await runFromImage(backend, image, program);
+                vscode.window.showInformationMessage(`Running: ${program.name} from ${item.label}`);
+            } else {
+                // Nothing to start locally (GCR image or no PRG): reset and let the user load it
+                await backend.machine('reset');
+                vscode.window.showInformationMessage(`Mounted ${item.label} on drive A. Type LOAD"*",8,1 to start it.`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to run disk image: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // Music Playback
+    async playSid(item: C64UTreeItem): Promise<void> {
+        let song: number | undefined;
+        const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'c64u-sid-'));
+        try {
+            // The subtunes are listed in the header
+            const localPath = path.join(tempDir, 'tune.sid');
+            await this.execC64U(['fs', 'download', item.resourcePath, localPath]);
+            song = await pickSidSong(parseSidHeader(await fs.promises.readFile(localPath)));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to read ${item.label}: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        } finally {
+            await fs.promises.rm(tempDir, { recursive: true, force: true });
+        }
+        if (song === undefined) {
+            return;
+        }
+
+        try {
+            await getC64UBackend().playSid(item.resourcePath, song);
+            vscode.window.showInformationMessage(`Playing: ${item.label} (song ${song})`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to play SID: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    async playMod(item: C64UTreeItem): Promise<void> {
+        try {
+            await getC64UBackend().playMod(item.resourcePath);
+            vscode.window.showInformationMessage(`Playing: ${item.label}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to play MOD: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     // Helper: Execute c64u CLI command
     private async execC64U(args: string[]): Promise<void> {
-        const { executeC64U } = await import('./cli');
-        const result = await executeC64U(args);
+        const { executeC64UOrThrow } = await import('./cli');
+        await executeC64UOrThrow(args);
+    }
+}
 
-        if (!result.success) {
-            throw new Error(result.error || 'Command failed');
-        }
+/**
+ * The items a context menu command applies to: the selection when the
+ * clicked item is part of it, otherwise the clicked item. Only files and
+ * directories on the Ultimate are kept.
+ */
+function selection(item: C64UTreeItem, selected?: readonly C64UTreeItem[]): C64UTreeItem[] {
+    if (!selected || selected.length < 2 || !selected.includes(item)) {
+        return [item];
+    }
+    return selected.filter(isRemoteEntry);
+}
+
+// Names for a confirmation dialog, at most ten
+function listNames(items: C64UTreeItem[]): string {
+    const names = items.slice(0, 10).map(item => item.resourcePath);
+    if (items.length > 10) {
+        names.push(`and ${items.length - 10} more`);
     }
+    return names.join('\n');
+}
+
+// Mount type of an image; GCR images are mounted by the drive they belong to
+function mountType(fileName: string): string {
+    const imageType = path.extname(fileName).toLowerCase().substring(1);
+    return imageType.replace(/^g/, 'd');
+}
+
+// Local file name for a CBM file, e.g. "GAME V1/2" (PRG) -> "GAME V1_2.prg"
+function localFileName(name: string, type: string): string {
+    const safeName = name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'file';
+    return `${safeName}.${type.toLowerCase()}`;
 }
@@ -1,7 +1,17 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import * as path from 'path';
-import { C64UClient } from './client';
+import { C64UClient, C64UFile } from './client';
 import { C64UFileOpenManager } from './file-open-manager';
+import { getActiveDevice, getDevices, hasDeviceList } from './devices';
+import { getC64UBackend } from './backend';
+import { C64UConnectionMonitor } from './connection';
+import { C64UDiskImageCache } from './disk-images';
+import { BatchItem, C64UBatchRunner } from './batch';
+import { executeC64UOrThrow } from './cli';
+import { c64uUri } from './filesystem';
+import { joinRemotePath, moveRemote, remoteParent, uniqueRemoteName } from './remote-files';
+import { DiskFile, formatFileType } from '../disk-image';
 
 // Machine control actions shown as direct tree items
 const MACHINE_ACTIONS: { label: string; action: string; icon: string; description: string }[] = [
@@ -12,28 +22,60 @@ const MACHINE_ACTIONS: { label: string; action: string; icon: string; descriptio
     { label: 'Power Off', action: 'poweroff', icon: 'circle-slash',   description: 'Power off' },
 ];
 
+// How long a directory listing is reused before it is fetched again
+const LISTING_TTL_MS = 30000;
+
+// Items dragged within the tree
+const TREE_MIME_TYPE = 'application/vnd.code.tree.c64uFileExplorer';
+
 export class C64UFileSystemProvider implements vscode.TreeDataProvider<C64UTreeItem>, vscode.TreeDragAndDropController<C64UTreeItem> {
     private _onDidChangeTreeData: vscode.EventEmitter<C64UTreeItem | undefined | null | void> = new vscode.EventEmitter<C64UTreeItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<C64UTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
     private client: C64UClient;
-    private currentPath: string = '/';
-    private treeItemCache: Map<string, C64UTreeItem> = new Map();
+    // Directory listings by path, dropped on refresh or after LISTING_TTL_MS
+    private listings: Map<string, { files: C64UFile[]; time: number }> = new Map();
+    // Last tree item returned for each directory path, for targeted refreshes
+    private directoryItems: Map<string, C64UTreeItem> = new Map();
 
     // Drag and Drop support
-    dropMimeTypes = ['application/vnd.code.tree.c64uFileExplorer'];
+    dropMimeTypes = [TREE_MIME_TYPE, 'text/uri-list'];
     dragMimeTypes = ['text/uri-list'];
 
-    constructor(private config: vscode.WorkspaceConfiguration) {
+    constructor(
+        private config: vscode.WorkspaceConfiguration,
+        private connection: C64UConnectionMonitor,
+        private diskImages: C64UDiskImageCache,
+        private batch: C64UBatchRunner
+    ) {
         this.client = new C64UClient();
     }
 
-    refresh(item?: C64UTreeItem): void {
-        console.log('[C64U TreeView] Refresh called, clearing cache');
-        // Clear cache to force reload
-        this.treeItemCache.clear();
-        // Always refresh entire tree to ensure consistency
-        this._onDidChangeTreeData.fire(undefined);
+    /**
+     * Reload a directory (and everything below it), or the whole tree when
+     * no path is given. Expanded directories stay expanded.
+     */
+    refresh(dirPath?: string): void {
+        if (dirPath === undefined) {
+            console.log('[C64U TreeView] Refresh called, clearing cache');
+            this.listings.clear();
+            this.directoryItems.clear();
+            this.diskImages.invalidate();
+            this._onDidChangeTreeData.fire(undefined);
+            return;
+        }
+
+        const prefix = dirPath === '/' ? '/' : `${dirPath}/`;
+        for (const key of [...this.listings.keys()]) {
+            if (key === dirPath || key.startsWith(prefix)) {
+                this.listings.delete(key);
+            }
+        }
+        this.diskImages.invalidate(dirPath);
+
+        // A directory that was never shown can't be refreshed on its own
+        const item = this.directoryItems.get(dirPath);
+        this._onDidChangeTreeData.fire(item);
     }
 
     getTreeItem(element: C64UTreeItem): vscode.TreeItem {
@@ -50,44 +92,68 @@ export class C64UFileSystemProvider implements vscode.TreeDataProvider<C64UTreeI
             )];
         }
 
-        // Root level: show Machine section and File System section
+        // Root level: show Devices (when configured), Machine and File System sections
         if (!element) {
-            return [
+            const fileSystem = new C64UTreeItem('File System', vscode.TreeItemCollapsibleState.Expanded, 'filesystem-root', '/');
+            this.directoryItems.set('/', fileSystem);
+            const roots = [
                 new C64UTreeItem('Machine', vscode.TreeItemCollapsibleState.Expanded, 'machine-root', '__machine__'),
-                new C64UTreeItem('File System', vscode.TreeItemCollapsibleState.Expanded, 'filesystem-root', '/'),
+                fileSystem,
             ];
+            if (hasDeviceList()) {
+                roots.unshift(new C64UTreeItem('Devices', vscode.TreeItemCollapsibleState.Expanded, 'devices-root', '__devices__'));
+            }
+            // Refreshing an offline tree retries the connection; the tree
+            // is refreshed again when the device comes back
+            if (this.connection.state === 'offline') {
+                void this.connection.check();
+            }
+            return roots;
+        }
+
+        // Devices section children: each device with its reachability
+        if (element.itemType === 'devices-root') {
+            return this.getDeviceItems();
         }
 
         // Machine section children: individual machine actions
         if (element.itemType === 'machine-root') {
-            return MACHINE_ACTIONS.map(a => new C64UTreeItem(
-                a.label,
-                vscode.TreeItemCollapsibleState.None,
-                'machine-action',
-                `__machine__/${a.action}`,
-                undefined,
-                a.icon,
-                a.description
-            ));
+            const offline = this.connection.state === 'offline';
+            return MACHINE_ACTIONS.map(a => {
+                const item = new C64UTreeItem(
+                    a.label,
+                    vscode.TreeItemCollapsibleState.None,
+                    'machine-action',
+                    `__machine__/${a.action}`,
+                    undefined,
+                    a.icon,
+                    offline ? 'offline' : a.description
+                );
+                if (offline) {
+                    // Greyed out and not clickable until the device is back
+                    item.command = undefined;
+                    item.iconPath = new vscode.ThemeIcon(a.icon, new vscode.ThemeColor('disabledForeground'));
+                }
+                return item;
+            });
+        }
+
+        if (this.connection.state === 'offline') {
+            return [this.offlineItem(element.resourcePath)];
+        }
+
+        // D64/D71/D81 contents are read from a downloaded copy; other images are not parsed
+        if (element.itemType !== 'directory' && isDiskImagePath(element.resourcePath)) {
+            return C64UDiskImageCache.isSupported(element.resourcePath)
+                ? this.getDiskImageItems(element.resourcePath)
+                : [this.unlistedImageItem(element.resourcePath)];
         }
 
         // File System section children: existing file browsing logic
         try {
             const targetPath = element.itemType === 'filesystem-root' ? '/' : element.resourcePath;
-            console.log(`[C64U TreeView] Loading children for: ${targetPath}`);
-            const files = await this.client.listFiles(targetPath);
-
-            // Add parent directory entry if not at root
+            const files = [...await this.listDirectory(targetPath)];
             const items: C64UTreeItem[] = [];
-            if (targetPath !== '/') {
-                const parentPath = targetPath.substring(0, targetPath.lastIndexOf('/')) || '/';
-                items.push(new C64UTreeItem(
-                    '..',
-                    vscode.TreeItemCollapsibleState.None,
-                    'parent',
-                    parentPath
-                ));
-            }
 
             // Sort: directories first, then files
             files.sort((a, b) => {
@@ -100,12 +166,8 @@ export class C64UFileSystemProvider implements vscode.TreeDataProvider<C64UTreeI
             for (const file of files) {
                 const fullPath = targetPath === '/' ? `/${file.name}` : `${targetPath}/${file.name}`;
 
-                // Check if this is a disk image (can be expanded like a directory)
-                const ext = path.extname(file.name).toLowerCase();
-                const isDiskImage = ['.d64', '.d71', '.d81', '.g64', '.g71', '.dnp'].includes(ext);
-
                 // Directories and disk images should be collapsible
-                const state = (file.is_dir || isDiskImage)
+                const state = (file.is_dir || isDiskImagePath(file.name))
                     ? vscode.TreeItemCollapsibleState.Collapsed
                     : vscode.TreeItemCollapsibleState.None;
 
@@ -116,6 +178,9 @@ export class C64UFileSystemProvider implements vscode.TreeDataProvider<C64UTreeI
                     fullPath,
                     file.size
                 );
+                if (state !== vscode.TreeItemCollapsibleState.None) {
+                    this.directoryItems.set(fullPath, item);
+                }
 
                 items.push(item);
             }
@@ -135,16 +200,150 @@ export class C64UFileSystemProvider implements vscode.TreeDataProvider<C64UTreeI
             return items;
         } catch (error) {
             const errorMsg = error instanceof Error ? error.message : String(error);
-            vscode.window.showErrorMessage(`Failed to list C64U directory: ${errorMsg}`);
-            return [new C64UTreeItem(
+            // No toast: the error is shown in the tree, and a device that
+            // went away is picked up by the connection monitor
+            if (await this.connection.check() === 'offline') {
+                return [this.offlineItem(element.resourcePath)];
+            }
+            const item = new C64UTreeItem(
                 'Failed to load directory',
                 vscode.TreeItemCollapsibleState.None,
                 'error',
-                '/'
-            )];
+                '/',
+                undefined,
+                undefined,
+                errorMsg
+            );
+            item.tooltip = errorMsg;
+            return [item];
         }
     }
 
+    private async getDiskImageItems(imagePath: string): Promise<C64UTreeItem[]> {
+        try {
+            const image = await this.diskImages.load(imagePath);
+
+            const header = new C64UTreeItem(
+                `"${image.diskName}" ${image.diskId}`,
+                vscode.TreeItemCollapsibleState.None,
+                'disk-header',
+                `${imagePath}#header`,
+                undefined,
+                undefined,
+                `${image.blocksFree} blocks free`
+            );
+            header.tooltip = `${image.format.toUpperCase()} image, DOS type ${image.dosType}\n${image.blocksFree} blocks free`;
+
+            const files = image.files.map((file, index) => {
+                const item = new C64UTreeItem(
+                    file.name,
+                    vscode.TreeItemCollapsibleState.None,
+                    file.type === 'PRG' ? 'disk-program' : 'disk-file',
+                    `${imagePath}#${index}`,
+                    undefined,
+                    undefined,
+                    `${formatFileType(file)}, ${file.blocks} blocks`
+                );
+                item.diskEntry = { imagePath, file };
+                item.tooltip = `${file.name}\n${formatFileType(file)}, ${file.blocks} blocks\nIn ${imagePath}`;
+                return item;
+            });
+
+            return [header, ...files];
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            if (await this.connection.check() === 'offline') {
+                return [this.offlineItem(imagePath)];
+            }
+            const item = new C64UTreeItem(
+                'Failed to read disk image',
+                vscode.TreeItemCollapsibleState.None,
+                'error',
+                imagePath,
+                undefined,
+                undefined,
+                errorMsg
+            );
+            item.tooltip = errorMsg;
+            return [item];
+        }
+    }
+
+    private async listDirectory(dirPath: string): Promise<C64UFile[]> {
+        const cached = this.listings.get(dirPath);
+        if (cached && Date.now() - cached.time < LISTING_TTL_MS) {
+            return cached.files;
+        }
+
+        console.log(`[C64U TreeView] Loading children for: ${dirPath}`);
+        const files = await this.client.listFiles(dirPath);
+        this.listings.set(dirPath, { files, time: Date.now() });
+        return files;
+    }
+
+    private offlineItem(resourcePath: string): C64UTreeItem {
+        const device = getActiveDevice();
+        const item = new C64UTreeItem(
+            'C64 Ultimate not reachable',
+            vscode.TreeItemCollapsibleState.None,
+            'message',
+            resourcePath,
+            undefined,
+            'debug-disconnect',
+            device.host
+        );
+        item.tooltip = `${device.name} (${device.host}) does not answer. The tree is refreshed when it is back online.`;
+        return item;
+    }
+
+    private unlistedImageItem(imagePath: string): C64UTreeItem {
+        const item = new C64UTreeItem(
+            'Contents cannot be listed',
+            vscode.TreeItemCollapsibleState.None,
+            'message',
+            `${imagePath}#contents`
+        );
+        item.tooltip = 'Only D64, D71 and D81 directories are read. Mount the image to load files from it.';
+        return item;
+    }
+
+    private async getDeviceItems(): Promise<C64UTreeItem[]> {
+        const active = getActiveDevice();
+
+        return Promise.all(getDevices().map(async device => {
+            let reachable = false;
+            let version = '';
+            try {
+                // Short timeout so an offline board doesn't hold up the tree
+                const cancellation = new vscode.CancellationTokenSource();
+                const timer = setTimeout(() => cancellation.cancel(), 3000);
+                try {
+                    version = (await getC64UBackend(device).ping(cancellation.token)).split('\n')[0];
+                    reachable = true;
+                } finally {
+                    clearTimeout(timer);
+                    cancellation.dispose();
+                }
+            } catch {
+                // Offline
+            }
+
+            const address = `${device.host}${device.port ? `:${device.port}` : ''}`;
+            const state = reachable ? 'online' : 'offline';
+            const item = new C64UTreeItem(
+                device.name,
+                vscode.TreeItemCollapsibleState.None,
+                'device',
+                `__devices__/${device.name}`,
+                undefined,
+                reachable ? 'vm-active' : 'vm-outline',
+                `${device.name === active.name ? 'active, ' : ''}${state}`
+            );
+            item.tooltip = `${device.name} (${address})\n${reachable ? `Online${version ? `: ${version}` : ''}` : 'Not reachable'}`;
+            return item;
+        }));
+    }
+
     private getItemType(file: any): C64UItemType {
         if (file.is_dir) {
             return 'directory';
@@ -163,6 +362,8 @@ export class C64UFileSystemProvider implements vscode.TreeDataProvider<C64UTreeI
                 return 'program';
             case '.sid':
                 return 'sid';
+            case '.mod':
+                return 'mod';
             case '.crt':
                 return 'cartridge';
             case '.asm':
@@ -185,149 +386,133 @@ export class C64UFileSystemProvider implements vscode.TreeDataProvider<C64UTreeI
         }
     }
 
-    navigateTo(targetPath: string): void {
-        this.currentPath = targetPath;
-        this.refresh();
-    }
-
-    // Drag and Drop implementation
+    // Drag and Drop: moves within the tree, uploads from the Explorer or
+    // the OS (text/uri-list with file: URIs) and c64u: URIs for dragging
+    // items out, which the Explorer and editors read through C64UFileSystem
     async handleDrag(source: readonly C64UTreeItem[], dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
         // Store the dragged items
-        dataTransfer.set('application/vnd.code.tree.c64uFileExplorer', new vscode.DataTransferItem(source));
+        dataTransfer.set(TREE_MIME_TYPE, new vscode.DataTransferItem(source));
+
+        const device = getActiveDevice();
+        const uris = source.filter(isRemoteEntry).map(item => c64uUri(device, item.resourcePath).toString());
+        if (uris.length > 0) {
+            dataTransfer.set('text/uri-list', new vscode.DataTransferItem(uris.join('\r\n')));
+        }
     }
 
     async handleDrop(target: C64UTreeItem | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
-        const transferItem = dataTransfer.get('application/vnd.code.tree.c64uFileExplorer');
-        if (!transferItem) {
+        const targetDir = dropDirectory(target);
+        if (targetDir === undefined) {
+            vscode.window.showErrorMessage('Drop files on a directory or file of the C64 Ultimate file system.');
             return;
         }
 
-        const draggedItems = transferItem.value as C64UTreeItem[];
-
-        // Determine target directory
-        let targetDir: string;
-        if (!target) {
-            targetDir = '/'; // Dropped on root
-        } else if (target.itemType === 'directory') {
-            targetDir = target.resourcePath;
-        } else {
-            // Dropped on a file - use parent directory (Unix-style path handling)
-            const lastSlash = target.resourcePath.lastIndexOf('/');
-            targetDir = lastSlash > 0 ? target.resourcePath.substring(0, lastSlash) : '/';
+        const treeItems = dataTransfer.get(TREE_MIME_TYPE);
+        const uriList = dataTransfer.get('text/uri-list');
+        if (!treeItems && !uriList) {
+            return;
         }
 
-        console.log(`[C64U Drag&Drop] Target directory: ${targetDir}`);
-
         // Check if target is root directory
         if (targetDir === '/') {
             vscode.window.showErrorMessage('Cannot move or copy files to root directory. C64 Ultimate file system does not support files in root. Please select a subdirectory.');
             return;
         }
 
-        // Move each dragged item
-        for (const item of draggedItems) {
-            // Skip special items
-            if (item.itemType === 'parent' || item.itemType === 'message' || item.itemType === 'error' ||
-                item.itemType === 'machine-root' || item.itemType === 'machine-action' || item.itemType === 'filesystem-root') {
-                continue;
-            }
-
-            try {
-                const fileName = path.basename(item.resourcePath);
-                const fileExt = path.extname(fileName);
-                const baseName = path.basename(fileName, fileExt);
-
-                console.log(`[C64U Drag&Drop] Moving: ${item.resourcePath} -> ${targetDir}`);
-                console.log(`[C64U Drag&Drop] fileName: ${fileName}, baseName: ${baseName}, ext: ${fileExt}`);
-
-                // Skip if source and target are the same directory
-                const sourceDir = item.resourcePath.substring(0, item.resourcePath.lastIndexOf('/')) || '/';
-                if (sourceDir === targetDir) {
-                    console.log(`[C64U Drag&Drop] Source and target are same directory, skipping`);
-                    continue;
-                }
-
-                // Find unique filename if conflict exists
-                let finalPath = targetDir === '/' ? `/${fileName}` : `${targetDir}/${fileName}`;
-                let finalFileName = fileName;
-
-                // Check if file exists and generate unique name
-                const { executeC64UJson } = await import('./cli');
-                const targetFiles = await executeC64UJson<any[]>(['fs', 'ls', targetDir]);
-
-                if (targetFiles) {
-                    const existingNames = new Set(targetFiles.map((f: any) => f.Name));
-                    console.log(`[C64U Drag&Drop] Existing files in target:`, Array.from(existingNames));
-
-                    if (existingNames.has(fileName)) {
-                        // Generate unique name: filename_1.ext, filename_2.ext, etc.
-                        let counter = 1;
-                        do {
-                            finalFileName = `${baseName}_${counter}${fileExt}`;
-                            finalPath = targetDir === '/' ? `/${finalFileName}` : `${targetDir}/${finalFileName}`;
-                            counter++;
-                        } while (existingNames.has(finalFileName));
-                        console.log(`[C64U Drag&Drop] Renamed to avoid conflict: ${finalFileName}`);
-                    }
-                }
-
-                console.log(`[C64U Drag&Drop] Final path: ${finalPath}`);
+        if (treeItems) {
+            await this.moveItems(treeItems.value as C64UTreeItem[], targetDir);
+        } else if (uriList) {
+            await this.uploadDropped(parseUriList(await uriList.asString()), targetDir);
+        }
+    }
 
-                // Use c64u CLI to move the file
-                const { executeC64U } = await import('./cli');
+    private async moveItems(items: C64UTreeItem[], targetDir: string): Promise<void> {
+        // Skip items already in the target, and directories dropped into themselves
+        const sources = items.filter(item => isRemoteEntry(item)
+            && remoteParent(item.resourcePath) !== targetDir
+            && targetDir !== item.resourcePath && !targetDir.startsWith(`${item.resourcePath}/`));
+        if (sources.length === 0) {
+            return;
+        }
 
-                // Try mv first (works within same device/partition)
-                console.log(`[C64U Drag&Drop] Executing: c64u fs mv ${item.resourcePath} ${finalPath}`);
-                let moveResult = await executeC64U(['fs', 'mv', item.resourcePath, finalPath]);
+        const existingNames = await this.existingNames(targetDir);
+        if (!existingNames) {
+            return;
+        }
 
-                // If mv fails, fall back to copy + delete (cross-device move)
-                if (!moveResult.success && moveResult.error?.includes('450')) {
-                    console.log(`[C64U Drag&Drop] mv failed with 450, trying copy+delete fallback`);
-                    const copyResult = await executeC64U(['fs', 'cp', item.resourcePath, finalPath]);
+        const jobs: BatchItem[] = sources.map(item => {
+            const fileName = path.posix.basename(item.resourcePath);
+            const finalName = uniqueRemoteName(fileName, existingNames);
+            existingNames.add(finalName);
+            return {
+                label: item.resourcePath,
+                run: async () => {
+                    await moveRemote(item.resourcePath, joinRemotePath(targetDir, finalName));
+                    return finalName !== fileName ? `renamed to ${finalName} to avoid a conflict` : undefined;
+                }
+            };
+        });
 
-                    if (!copyResult.success) {
-                        console.error(`[C64U Drag&Drop] Copy failed:`, copyResult.error);
-                        vscode.window.showErrorMessage(`Failed to copy ${fileName}: ${copyResult.error}`);
-                        continue;
-                    }
+        await this.batch.run(`Moving ${jobs.length} items to ${targetDir}`, jobs);
 
-                    console.log(`[C64U Drag&Drop] Copy successful, deleting original`);
-                    const deleteResult = await executeC64U(['fs', 'rm', item.resourcePath]);
+        // Refresh the affected directories
+        new Set([targetDir, ...sources.map(item => remoteParent(item.resourcePath))]).forEach(dir => this.refresh(dir));
+    }
 
-                    if (!deleteResult.success) {
-                        console.error(`[C64U Drag&Drop] Delete failed:`, deleteResult.error);
-                        vscode.window.showErrorMessage(`Copied ${fileName} but failed to delete original: ${deleteResult.error}`);
-                        continue;
-                    }
+    // Upload local files and folders (with their contents) dropped on the tree
+    private async uploadDropped(uris: vscode.Uri[], targetDir: string): Promise<void> {
+        const localUris = uris.filter(uri => uri.scheme === 'file');
+        if (localUris.length < uris.length) {
+            vscode.window.showWarningMessage(`Only local files can be uploaded; skipped ${uris.length - localUris.length} item(s)`);
+        }
+        if (localUris.length === 0) {
+            return;
+        }
 
-                    moveResult = { success: true, output: '' };
-                }
+        const existingNames = await this.existingNames(targetDir);
+        if (!existingNames) {
+            return;
+        }
 
-                if (!moveResult.success) {
-                    console.error(`[C64U Drag&Drop] Move failed:`, moveResult.error);
-                    vscode.window.showErrorMessage(`Failed to move ${fileName}: ${moveResult.error}`);
-                } else {
-                    console.log(`[C64U Drag&Drop] Move successful`);
-                    if (finalFileName !== fileName) {
-                        vscode.window.showInformationMessage(`Moved ${fileName} to ${targetDir}/${finalFileName} (renamed to avoid conflict)`);
-                    } else {
-                        vscode.window.showInformationMessage(`Moved ${fileName} to ${targetDir}`);
-                    }
-                }
-            } catch (error) {
-                const errorMsg = error instanceof Error ? error.message : String(error);
-                vscode.window.showErrorMessage(`Failed to move file: ${errorMsg}`);
+        const jobs: BatchItem[] = [];
+        try {
+            for (const uri of localUris) {
+                const fileName = path.basename(uri.fsPath);
+                const finalName = uniqueRemoteName(fileName, existingNames);
+                existingNames.add(finalName);
+                await addUploadJobs(jobs, uri.fsPath, joinRemotePath(targetDir, finalName),
+                    finalName !== fileName ? `as ${finalName} to avoid a conflict` : undefined);
             }
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to upload: ${errorMsg}`);
+            return;
         }
 
-        // Refresh the tree
-        this.refresh();
+        await this.batch.run(`Uploading ${jobs.length} items to ${targetDir}`, jobs);
+        this.refresh(targetDir);
+    }
+
+    private async existingNames(dirPath: string): Promise<Set<string> | undefined> {
+        try {
+            return new Set((await this.client.listFiles(dirPath)).map(file => file.name));
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to list ${dirPath}: ${errorMsg}`);
+            return undefined;
+        }
     }
 }
 
-type C64UItemType = 'directory' | 'diskimage' | 'diskimage-gcr' | 'program' | 'sid' | 'cartridge' | 'textfile' | 'binaryfile' | 'file' | 'parent' | 'message' | 'error' | 'machine-root' | 'machine-action' | 'filesystem-root';
+// Images the tree expands; the Ultimate's listing cannot look inside them
+const DISK_IMAGE_EXTENSIONS = ['.d64', '.d71', '.d81', '.g64', '.g71', '.dnp'];
+
+type C64UItemType = 'directory' | 'diskimage' | 'diskimage-gcr' | 'program' | 'sid' | 'mod' | 'cartridge' | 'textfile' | 'binaryfile' | 'file' | 'message' | 'error' | 'machine-root' | 'machine-action' | 'filesystem-root' | 'devices-root' | 'device' | 'disk-header' | 'disk-program' | 'disk-file';
 
 export class C64UTreeItem extends vscode.TreeItem {
+    /** Set for files listed from inside a disk image. */
+    diskEntry?: { imagePath: string; file: DiskFile };
+
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
@@ -340,6 +525,10 @@ export class C64UTreeItem extends vscode.TreeItem {
         super(label, collapsibleState);
 
         this.contextValue = itemType;
+        // Stable ids keep the expansion state of directories across refreshes
+        if (itemType !== 'message' && itemType !== 'error') {
+            this.id = resourcePath;
+        }
         this.tooltip = this.buildTooltip();
         this.iconPath = customIcon ? new vscode.ThemeIcon(customIcon) : this.getIcon();
         this.description = description ?? this.getDescription();
@@ -354,17 +543,17 @@ export class C64UTreeItem extends vscode.TreeItem {
             };
         }
 
-        // Make clickable items that navigate
-        if (itemType === 'directory' || itemType === 'parent') {
+        // Devices are selected on click
+        if (itemType === 'device') {
             this.command = {
-                command: 'c64u.treeview.navigate',
-                title: 'Navigate',
-                arguments: [this]
+                command: 'c64u.selectDevice',
+                title: 'Select Device',
+                arguments: [label]
             };
-        } else if (itemType === 'filesystem-root') {
-            // File System root navigates to /
-            this.command = undefined;
-        } else if (C64UFileOpenManager.isOpenableFile(label) && itemType !== 'machine-action') {
+        }
+
+        // Directories expand in place; openable files open on click
+        if (C64UFileOpenManager.isOpenableFile(label) && itemType !== 'directory' && itemType !== 'machine-action' && itemType !== 'device' && !itemType.startsWith('disk-')) {
             this.command = {
                 command: 'c64u.treeview.openFile',
                 title: 'Open File',
@@ -386,6 +575,9 @@ export class C64UTreeItem extends vscode.TreeItem {
         if (this.itemType === 'filesystem-root') {
             return 'C64 Ultimate File System';
         }
+        if (this.itemType === 'devices-root') {
+            return 'C64 Ultimate devices. Click a device to make it active.';
+        }
 
         let tooltip = `Path: ${this.resourcePath}`;
         if (this.fileSize !== undefined) {
@@ -403,10 +595,10 @@ export class C64UTreeItem extends vscode.TreeItem {
                 return new vscode.ThemeIcon('gear');
             case 'filesystem-root':
                 return new vscode.ThemeIcon('server');
+            case 'devices-root':
+                return new vscode.ThemeIcon('server-environment');
             case 'directory':
                 return new vscode.ThemeIcon('folder');
-            case 'parent':
-                return new vscode.ThemeIcon('folder-opened');
             case 'diskimage':
             case 'diskimage-gcr':
                 return new vscode.ThemeIcon('database');
@@ -416,7 +608,12 @@ export class C64UTreeItem extends vscode.TreeItem {
             case 'textfile':
                 return new vscode.ThemeIcon('file-code');
             case 'sid':
+            case 'mod':
                 return new vscode.ThemeIcon('music');
+            case 'disk-header':
+                return new vscode.ThemeIcon('info');
+            case 'disk-program':
+                return new vscode.ThemeIcon('file-binary');
             case 'cartridge':
                 return new vscode.ThemeIcon('circuit-board');
             case 'error':
@@ -445,3 +642,75 @@ export class C64UTreeItem extends vscode.TreeItem {
         }
     }
 }
+
+function isDiskImagePath(remotePath: string): boolean {
+    return DISK_IMAGE_EXTENSIONS.includes(path.extname(remotePath).toLowerCase());
+}
+
+const REMOTE_ENTRY_TYPES: C64UItemType[] = ['directory', 'diskimage', 'diskimage-gcr', 'program', 'sid', 'mod', 'cartridge', 'textfile', 'binaryfile', 'file'];
+
+/**
+ * Whether an item is a file or directory on the Ultimate, as opposed to
+ * machine actions, devices, messages and files inside disk images.
+ */
+export function isRemoteEntry(item: C64UTreeItem): boolean {
+    return !item.diskEntry && REMOTE_ENTRY_TYPES.includes(item.itemType);
+}
+
+/**
+ * Directory that files dropped on an item go to: the directory itself, or
+ * the one holding a file or disk image. Undefined for items outside the
+ * file system, such as machine actions and devices.
+ */
+function dropDirectory(target: C64UTreeItem | undefined): string | undefined {
+    if (!target || target.itemType === 'filesystem-root') {
+        return '/';
+    }
+    if (target.itemType === 'directory') {
+        return target.resourcePath;
+    }
+    if (isRemoteEntry(target)) {
+        return remoteParent(target.resourcePath);
+    }
+    if (target.diskEntry) {
+        return remoteParent(target.diskEntry.imagePath);
+    }
+    if (target.itemType === 'disk-header') {
+        return remoteParent(target.resourcePath.replace(/#header$/, ''));
+    }
+    return undefined;
+}
+
+// URIs of a text/uri-list: one per line, # starts a comment
+function parseUriList(text: string): vscode.Uri[] {
+    return text.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('#'))
+        .map(line => vscode.Uri.parse(line));
+}
+
+// Jobs to upload a local file, or to create a directory and upload its contents
+async function addUploadJobs(jobs: BatchItem[], localPath: string, remotePath: string, note?: string): Promise<void> {
+    const stat = await fs.promises.stat(localPath);
+    if (!stat.isDirectory()) {
+        jobs.push({
+            label: localPath,
+            run: async () => {
+                await executeC64UOrThrow(['fs', 'upload', localPath, remotePath]);
+                return note;
+            }
+        });
+        return;
+    }
+
+    jobs.push({
+        label: `${localPath}${path.sep}`,
+        run: async () => {
+            await executeC64UOrThrow(['fs', 'mkdir', remotePath]);
+            return note;
+        }
+    });
+    for (const entry of await fs.promises.readdir(localPath)) {
+        await addUploadJobs(jobs, path.join(localPath, entry), joinRemotePath(remotePath, entry));
+    }
+}
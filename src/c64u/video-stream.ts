@@ -0,0 +1,122 @@
+/**
+ * Decoder for the VIC video stream of the Ultimate 64. Each UDP packet
+ * carries a 12 byte header and four lines of 384 pixels at 4 bits per
+ * pixel (two pixels per byte, left pixel in the low nibble):
+ *
+ *   0  sequence number     u16
+ *   2  frame number        u16
+ *   4  line number         u16, bit 15 set on the last packet of a frame
+ *   6  pixels per line     u16
+ *   8  lines per packet    u8
+ *   9  bits per pixel      u8
+ *   10 encoding            u16, 0 = uncompressed
+ *
+ * All values are little endian.
+ */
+
+export const VIDEO_STREAM_PORT = 11000;
+export const VIDEO_HEADER_SIZE = 12;
+
+const LAST_PACKET = 0x8000;
+// Enough for PAL (272 lines); NTSC frames end earlier
+const MAX_LINES = 312;
+
+/** VIC-II colours as RGB, in colour index order. */
+export const C64_PALETTE: [number, number, number][] = [
+    [0x00, 0x00, 0x00], [0xff, 0xff, 0xff], [0x68, 0x37, 0x2b], [0x70, 0xa4, 0xb2],
+    [0x6f, 0x3d, 0x86], [0x58, 0x8d, 0x43], [0x35, 0x28, 0x79], [0xb8, 0xc7, 0x6f],
+    [0x6f, 0x4f, 0x25], [0x43, 0x39, 0x00], [0x9a, 0x67, 0x59], [0x44, 0x44, 0x44],
+    [0x6c, 0x6c, 0x6c], [0x9a, 0xd2, 0x84], [0x6c, 0x5e, 0xb5], [0x95, 0x95, 0x95]
+];
+
+export interface VideoPacketHeader {
+    sequence: number;
+    frame: number;
+    line: number;
+    last: boolean;
+    pixelsPerLine: number;
+    linesPerPacket: number;
+    bitsPerPixel: number;
+    encoding: number;
+}
+
+/**
+ * One decoded frame: a colour index (0-15) per pixel, row by row.
+ */
+export interface VideoFrame {
+    number: number;
+    width: number;
+    height: number;
+    pixels: Uint8Array;
+}
+
+export function parseVideoHeader(packet: Buffer): VideoPacketHeader | undefined {
+    if (packet.length < VIDEO_HEADER_SIZE) {
+        return undefined;
+    }
+    const line = packet.readUInt16LE(4);
+    return {
+        sequence: packet.readUInt16LE(0),
+        frame: packet.readUInt16LE(2),
+        line: line & ~LAST_PACKET,
+        last: (line & LAST_PACKET) !== 0,
+        pixelsPerLine: packet.readUInt16LE(6),
+        linesPerPacket: packet[8],
+        bitsPerPixel: packet[9],
+        encoding: packet.readUInt16LE(10)
+    };
+}
+
+/**
+ * Collects packets into frames. Lines of lost packets keep the contents of
+ * the previous frame, so dropped packets show up as stale lines rather
+ * than black ones.
+ */
+export class VideoFrameAssembler {
+    private width = 0;
+    private pixels = new Uint8Array(0);
+    /** Packets that could not be decoded (wrong size or encoding). */
+    rejected = 0;
+
+    /**
+     * Add a packet. Returns the frame it completes, if any.
+     */
+    push(packet: Buffer): VideoFrame | undefined {
+        const header = parseVideoHeader(packet);
+        if (!header || header.encoding !== 0 || header.bitsPerPixel !== 4 || header.pixelsPerLine === 0) {
+            this.rejected++;
+            return undefined;
+        }
+
+        const bytesPerLine = header.pixelsPerLine / 2;
+        const lines = Math.min(header.linesPerPacket, MAX_LINES - header.line);
+        if (packet.length < VIDEO_HEADER_SIZE + header.linesPerPacket * bytesPerLine || lines <= 0) {
+            this.rejected++;
+            return undefined;
+        }
+
+        if (header.pixelsPerLine !== this.width) {
+            this.width = header.pixelsPerLine;
+            this.pixels = new Uint8Array(this.width * MAX_LINES);
+        }
+
+        let source = VIDEO_HEADER_SIZE;
+        let target = header.line * this.width;
+        for (let i = 0; i < lines * bytesPerLine; i++) {
+            const byte = packet[source++];
+            this.pixels[target++] = byte & 0x0f;
+            this.pixels[target++] = byte >> 4;
+        }
+
+        if (!header.last) {
+            return undefined;
+        }
+        const height = header.line + lines;
+        return {
+            number: header.frame,
+            width: this.width,
+            height,
+            pixels: this.pixels.slice(0, this.width * height)
+        };
+    }
+}
@@ -0,0 +1,339 @@
+import * as vscode from 'vscode';
+import * as dgram from 'dgram';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getC64UBackend } from './backend';
+import { getActiveDevice } from './devices';
+import { C64_PALETTE, VIDEO_STREAM_PORT, VideoFrame, VideoFrameAssembler } from './video-stream';
+import { encodeGif, encodePng } from '../image-encoders';
+
+// The panel gets at most this many frames per second; the rest are dropped
+const DISPLAY_FPS = 25;
+
+/** Messages from the video page. */
+type VideoViewerMessage = { command: 'screenshot' | 'record' | 'stopRecording' };
+
+const VIDEO_VIEWER_COMMANDS: VideoViewerMessage['command'][] = ['screenshot', 'record', 'stopRecording'];
+
+/**
+ * Live view of the Ultimate 64 video stream. Receives the VIC stream on a
+ * local UDP port, shows it in a webview and saves PNG screenshots and GIF
+ * recordings. Packets from any sender are shown, so a replayed recording
+ * (scripts/video-stream.js) works without a device.
+ */
+export class C64UVideoViewer implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    private socket: dgram.Socket | undefined;
+    private assembler = new VideoFrameAssembler();
+    private latest: VideoFrame | undefined;
+    private lastPosted = 0;
+    private framesReceived = 0;
+    // Frames of the GIF being recorded, every second frame (25 fps)
+    private recording: VideoFrame[] | undefined;
+    private recordingTimer: NodeJS.Timeout | undefined;
+    // Whether the device was asked to stream, so it is told to stop again
+    private streaming = false;
+
+    async show(): Promise<void> {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'c64u.videoStream',
+            'C64 Ultimate Video',
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+            void this.stop();
+        });
+        this.panel.webview.onDidReceiveMessage(async (raw: unknown) => {
+            const message = parseMessage(raw);
+            switch (message?.command) {
+                case 'screenshot':
+                    await this.saveScreenshot();
+                    break;
+                case 'record':
+                    this.startRecording();
+                    break;
+                case 'stopRecording':
+                    await this.stopRecording();
+                    break;
+            }
+        });
+        this.panel.webview.html = this.getHtml();
+
+        await this.start();
+    }
+
+    private async start(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('c64u');
+        const port = config.get<number>('stream.videoPort', VIDEO_STREAM_PORT);
+
+        const socket = dgram.createSocket('udp4');
+        this.socket = socket;
+        socket.on('message', packet => this.onPacket(packet));
+        try {
+            await new Promise<void>((resolve, reject) => {
+                socket.once('error', reject);
+                socket.bind(port, () => {
+                    socket.off('error', reject);
+                    resolve();
+                });
+            });
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.status(`Cannot listen on UDP port ${port}: ${msg}`, true);
+            socket.close();
+            this.socket = undefined;
+            return;
+        }
+        socket.on('error', error => this.status(`Stream error: ${error.message}`, true));
+
+        const device = getActiveDevice();
+        try {
+            const address = config.get<string>('stream.localAddress') || await localAddressFor(device.host);
+            await getC64UBackend(device).startStream('video', `${address}:${port}`);
+            this.streaming = true;
+            this.status(`Receiving the video stream of ${device.name} on ${address}:${port}`);
+        } catch (error) {
+            // Keep listening: a replayed stream needs no device
+            const msg = error instanceof Error ? error.message : String(error);
+            this.status(`Could not start the stream on ${device.name} (${msg}). Listening on port ${port} anyway.`, true);
+        }
+    }
+
+    private async stop(): Promise<void> {
+        if (this.recordingTimer) {
+            clearTimeout(this.recordingTimer);
+            this.recordingTimer = undefined;
+        }
+        this.recording = undefined;
+        this.socket?.close();
+        this.socket = undefined;
+        this.latest = undefined;
+
+        if (this.streaming) {
+            this.streaming = false;
+            try {
+                await getC64UBackend().stopStream('video');
+            } catch (error) {
+                console.error('Failed to stop the video stream:', error);
+            }
+        }
+    }
+
+    private onPacket(packet: Buffer): void {
+        const frame = this.assembler.push(packet);
+        if (!frame) {
+            return;
+        }
+        this.latest = frame;
+        this.framesReceived++;
+
+        if (this.recording && this.framesReceived % 2 === 0) {
+            this.recording.push(frame);
+        }
+
+        const now = Date.now();
+        if (this.panel?.visible && now - this.lastPosted >= 1000 / DISPLAY_FPS) {
+            this.lastPosted = now;
+            void this.panel.webview.postMessage({
+                command: 'frame',
+                width: frame.width,
+                height: frame.height,
+                pixels: packPixels(frame.pixels).toString('base64')
+            });
+        }
+    }
+
+    private async saveScreenshot(): Promise<void> {
+        if (!this.latest) {
+            vscode.window.showInformationMessage('No video frame received yet');
+            return;
+        }
+        await this.save('png', encodePng(this.latest, C64_PALETTE));
+    }
+
+    private startRecording(): void {
+        if (this.recording) {
+            return;
+        }
+        this.recording = [];
+        const seconds = vscode.workspace.getConfiguration('c64u').get<number>('stream.maxRecordingSeconds', 10);
+        this.recordingTimer = setTimeout(() => void this.stopRecording(), seconds * 1000);
+        void this.panel?.webview.postMessage({ command: 'recording', recording: true });
+    }
+
+    private async stopRecording(): Promise<void> {
+        if (this.recordingTimer) {
+            clearTimeout(this.recordingTimer);
+            this.recordingTimer = undefined;
+        }
+        const frames = this.recording;
+        this.recording = undefined;
+        void this.panel?.webview.postMessage({ command: 'recording', recording: false });
+
+        if (!frames || frames.length === 0) {
+            vscode.window.showInformationMessage('No video frames recorded');
+            return;
+        }
+        // Every second frame of a 50 Hz stream: 4/100 s per frame
+        await this.save('gif', encodeGif(frames, C64_PALETTE, 4));
+    }
+
+    /**
+     * Write a capture to c64u.stream.captureDir in the workspace.
+     */
+    private async save(extension: string, data: Buffer): Promise<void> {
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!folder) {
+            vscode.window.showErrorMessage('Open a workspace folder to save captures');
+            return;
+        }
+
+        const captureDir = vscode.workspace.getConfiguration('c64u').get<string>('stream.captureDir', 'captures');
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace('T', '_').substring(0, 19);
+        const filePath = path.join(path.resolve(folder, captureDir), `c64-${timestamp}.${extension}`);
+        try {
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.promises.writeFile(filePath, data);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to save capture: ${msg}`);
+            return;
+        }
+
+        const choice = await vscode.window.showInformationMessage(`Saved ${path.relative(folder, filePath)}`, 'Open');
+        if (choice === 'Open') {
+            await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(filePath));
+        }
+    }
+
+    private status(text: string, isError = false): void {
+        void this.panel?.webview.postMessage({ command: 'status', text, isError });
+    }
+
+    private getHtml(): string {
+        const nonce = Date.now().toString(36) + Math.random().toString(36).substring(2);
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        .toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; }
+        button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 3px 10px; cursor: pointer; }
+        canvas { width: 100%; max-width: 768px; image-rendering: pixelated; background: #000; }
+        #status { color: var(--vscode-descriptionForeground); }
+        #status.error { color: var(--vscode-errorForeground); }
+        #record.recording { background: var(--vscode-statusBarItem-errorBackground, #c00); }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <button id="screenshot">Screenshot</button>
+        <button id="record">Record GIF</button>
+        <span id="fps"></span>
+    </div>
+    <canvas id="screen" width="384" height="272"></canvas>
+    <p id="status">Starting...</p>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const palette = ${JSON.stringify(C64_PALETTE)};
+        const canvas = document.getElementById('screen');
+        const context = canvas.getContext('2d');
+        const record = document.getElementById('record');
+        let recording = false;
+        let frames = 0;
+
+        document.getElementById('screenshot').addEventListener('click', () => vscode.postMessage({ command: 'screenshot' }));
+        record.addEventListener('click', () => vscode.postMessage({ command: recording ? 'stopRecording' : 'record' }));
+
+        setInterval(() => {
+            document.getElementById('fps').textContent = frames ? frames + ' fps' : '';
+            frames = 0;
+        }, 1000);
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'frame') {
+                if (canvas.width !== message.width || canvas.height !== message.height) {
+                    canvas.width = message.width;
+                    canvas.height = message.height;
+                }
+                // Two pixels per byte, left pixel in the low nibble
+                const packed = atob(message.pixels);
+                const image = context.createImageData(message.width, message.height);
+                for (let i = 0; i < packed.length; i++) {
+                    const byte = packed.charCodeAt(i);
+                    const left = palette[byte & 15];
+                    const right = palette[byte >> 4];
+                    image.data.set([left[0], left[1], left[2], 255, right[0], right[1], right[2], 255], i * 8);
+                }
+                context.putImageData(image, 0, 0);
+                frames++;
+            } else if (message.command === 'status') {
+                const status = document.getElementById('status');
+                status.textContent = message.text;
+                status.className = message.isError ? 'error' : '';
+            } else if (message.command === 'recording') {
+                recording = message.recording;
+                record.textContent = recording ? 'Stop Recording' : 'Record GIF';
+                record.className = recording ? 'recording' : '';
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+        void this.stop();
+    }
+}
+
+/**
+ * The message if it is one the page sends.
+ */
+function parseMessage(message: unknown): VideoViewerMessage | undefined {
+    if (typeof message !== 'object' || message === null) {
+        return undefined;
+    }
+    const command = VIDEO_VIEWER_COMMANDS.find(known => known === (message as Record<string, unknown>).command);
+    return command && { command };
+}
+
+// Back to two pixels per byte for the webview, halving the message size
+function packPixels(pixels: Uint8Array): Buffer {
+    const packed = Buffer.alloc(pixels.length >> 1);
+    for (let i = 0; i < packed.length; i++) {
+        packed[i] = pixels[i * 2] | (pixels[i * 2 + 1] << 4);
+    }
+    return packed;
+}
+
+/**
+ * Local address the device can reach us on: the one the OS picks for
+ * sending to it.
+ */
+function localAddressFor(host: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const socket = dgram.createSocket('udp4');
+        socket.once('error', error => {
+            socket.close();
+            reject(error);
+        });
+        // Connecting a UDP socket sends nothing, it only picks a route
+        socket.connect(80, host, () => {
+            const address = socket.address().address;
+            socket.close();
+            resolve(address);
+        });
+    });
+}
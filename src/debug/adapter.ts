@@ -0,0 +1,709 @@
+import * as vscode from 'vscode';
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { KickassemblerService } from '../kickassembler';
+import { BuildTarget, resolveBuildTargets } from '../project';
+import { ViceMonitorClient, CheckpointInfo } from '../vice-monitor';
+import { DebugInfo, findDebugInfoFile } from './debug-info';
+
+export const DEBUG_TYPE = 'c64-vice';
+
+const THREAD_ID = 1;
+const REGISTERS_REFERENCE = 1;
+const ZERO_PAGE_REFERENCE = 2;
+const STACK_REFERENCE = 3;
+
+// Upper bound for instruction steps while stepping over a single source line
+const MAX_LINE_STEPS = 10000;
+
+export interface ViceLaunchArguments {
+    program: string;
+    prg?: string;
+    assemble?: boolean;
+    monitorPort?: number;
+    viceArgs?: string[];
+}
+
+// Minimal Debug Adapter Protocol message shapes used by this adapter
+interface DapRequest {
+    seq: number;
+    type: 'request';
+    command: string;
+    arguments?: unknown;
+}
+
+interface DapResponse {
+    seq: number;
+    type: 'response';
+    request_seq: number;
+    success: boolean;
+    command: string;
+    message?: string;
+    body?: object;
+}
+
+interface DapEvent {
+    seq: number;
+    type: 'event';
+    event: string;
+    body?: object;
+}
+
+interface DapSource {
+    name?: string;
+    path?: string;
+}
+
+interface DapBreakpoint {
+    verified: boolean;
+    line: number;
+    message?: string;
+    instructionReference?: string;
+}
+
+interface DapStackFrame {
+    id: number;
+    name: string;
+    source?: DapSource;
+    line: number;
+    column: number;
+    instructionPointerReference?: string;
+}
+
+interface DapVariable {
+    name: string;
+    value: string;
+    variablesReference: number;
+    memoryReference?: string;
+}
+
+interface SetBreakpointsArguments {
+    source: DapSource;
+    breakpoints?: { line: number }[];
+}
+
+interface VariablesArguments {
+    variablesReference: number;
+}
+
+interface SetVariableArguments {
+    variablesReference: number;
+    name: string;
+    value: string;
+}
+
+interface ReadMemoryArguments {
+    memoryReference: string;
+    offset?: number;
+    count: number;
+}
+
+interface WriteMemoryArguments {
+    memoryReference: string;
+    offset?: number;
+    data: string;
+}
+
+interface EvaluateArguments {
+    expression: string;
+}
+
+interface EvaluateResult {
+    result: string;
+    variablesReference: number;
+    memoryReference?: string;
+}
+
+interface SourceBreakpoint {
+    line: number;
+    checkpoints: number[];
+}
+
+/**
+ * Inline debug adapter that drives VICE through its binary monitor.
+ */
+export class ViceDebugSession implements vscode.DebugAdapter {
+    private sendMessage = new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+    readonly onDidSendMessage: vscode.Event<vscode.DebugProtocolMessage> = this.sendMessage.event;
+
+    private seq = 1;
+    private monitor = new ViceMonitorClient();
+    private viceProcess: child_process.ChildProcess | undefined;
+    private debugInfo: DebugInfo | undefined;
+    private prgPath: string | undefined;
+    private breakpoints: Map<string, SourceBreakpoint[]> = new Map();
+
+    // Whether the user sees the program as stopped (as opposed to VICE briefly
+    // entering the monitor to process one of our commands)
+    private paused = false;
+    private pc = 0;
+    private stopReason: string | undefined;
+    private terminated = false;
+
+    constructor(private kickassService: KickassemblerService) {
+        this.monitor.on('checkpoint', (info: CheckpointInfo) => {
+            if (info.currentlyHit && this.stopReason === undefined) {
+                this.stopReason = info.temporary ? 'step' : 'breakpoint';
+            }
+        });
+
+        this.monitor.on('stopped', (pc: number) => {
+            this.pc = pc;
+            if (this.stopReason !== undefined) {
+                const reason = this.stopReason;
+                this.stopReason = undefined;
+                this.reportStopped(reason);
+            }
+        });
+
+        this.monitor.on('jam', (pc: number) => {
+            this.pc = pc;
+            this.reportStopped('exception', 'CPU JAM');
+        });
+
+        this.monitor.on('close', () => this.terminate());
+    }
+
+    handleMessage(message: vscode.DebugProtocolMessage): void {
+        const request = message as DapRequest;
+        if (request.type !== 'request') {
+            return;
+        }
+
+        this.dispatch(request).catch((error) => {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.sendResponse(request, undefined, msg);
+        });
+    }
+
+    dispose(): void {
+        this.shutdown();
+        this.sendMessage.dispose();
+    }
+
+    private async dispatch(request: DapRequest): Promise<void> {
+        const args = request.arguments ?? {};
+
+        switch (request.command) {
+            case 'initialize':
+                this.sendResponse(request, {
+                    supportsConfigurationDoneRequest: true,
+                    supportsReadMemoryRequest: true,
+                    supportsWriteMemoryRequest: true,
+                    supportsSetVariable: true,
+                    supportsEvaluateForHovers: true,
+                    supportsTerminateRequest: true
+                });
+                break;
+            case 'launch':
+                await this.launch(args as ViceLaunchArguments);
+                this.sendResponse(request);
+                this.sendEvent('initialized');
+                break;
+            case 'setBreakpoints':
+                this.sendResponse(request, await this.setBreakpoints(args as SetBreakpointsArguments));
+                break;
+            case 'configurationDone':
+                await this.start();
+                this.sendResponse(request);
+                break;
+            case 'threads':
+                this.sendResponse(request, { threads: [{ id: THREAD_ID, name: '6510' }] });
+                break;
+            case 'stackTrace':
+                this.sendResponse(request, this.stackTrace());
+                break;
+            case 'scopes':
+                this.sendResponse(request, {
+                    scopes: [
+                        { name: 'Registers', variablesReference: REGISTERS_REFERENCE, expensive: false },
+                        { name: 'Zero Page', variablesReference: ZERO_PAGE_REFERENCE, expensive: true },
+                        { name: 'Stack', variablesReference: STACK_REFERENCE, expensive: true }
+                    ]
+                });
+                break;
+            case 'variables':
+                this.sendResponse(request, { variables: await this.variables((args as VariablesArguments).variablesReference) });
+                break;
+            case 'setVariable':
+                this.sendResponse(request, await this.setVariable(args as SetVariableArguments));
+                break;
+            case 'continue':
+                await this.resume();
+                this.sendResponse(request, { allThreadsContinued: true });
+                break;
+            case 'next':
+                this.sendResponse(request);
+                await this.step(() => this.stepLine(true));
+                break;
+            case 'stepIn':
+                this.sendResponse(request);
+                await this.step(() => this.stepLine(false));
+                break;
+            case 'stepOut':
+                this.sendResponse(request);
+                await this.step(() => {
+                    this.stopReason = 'step';
+                    return this.monitor.executeUntilReturn();
+                });
+                break;
+            case 'pause':
+                this.stopReason = 'pause';
+                // Any command makes VICE enter the monitor
+                await this.monitor.ping();
+                this.sendResponse(request);
+                break;
+            case 'readMemory':
+                this.sendResponse(request, await this.readMemory(args as ReadMemoryArguments));
+                break;
+            case 'writeMemory':
+                this.sendResponse(request, await this.writeMemory(args as WriteMemoryArguments));
+                break;
+            case 'evaluate':
+                this.sendResponse(request, await this.evaluate((args as EvaluateArguments).expression));
+                break;
+            case 'terminate':
+            case 'disconnect':
+                await this.shutdown();
+                this.sendResponse(request);
+                break;
+            default:
+                this.sendResponse(request, undefined, `Unsupported request: ${request.command}`);
+        }
+    }
+
+    // Launch
+
+    private async launch(args: ViceLaunchArguments): Promise<void> {
+        if (!args.program) {
+            throw new Error('No program specified in launch configuration');
+        }
+
+        // The program may be any file of a c64project.json project
+        let target: BuildTarget | undefined;
+        if (args.assemble !== false) {
+            target = await this.kickassService.build(args.program);
+            if (!target) {
+                throw new Error('Assembly failed. Check Problems panel for errors.');
+            }
+        } else {
+            target = resolveBuildTargets(args.program)[0];
+        }
+
+        this.prgPath = args.prg ?? target.outputFile;
+        if (!fs.existsSync(this.prgPath)) {
+            throw new Error(`PRG file not found: ${this.prgPath}. Assemble first.`);
+        }
+
+        const dbgPath = findDebugInfoFile(this.prgPath, target.source);
+        if (dbgPath) {
+            this.debugInfo = DebugInfo.load(dbgPath);
+        } else {
+            this.output('No Kick Assembler debug dump (.dbg) found - breakpoints on source lines are unavailable.\n');
+        }
+
+        const config = vscode.workspace.getConfiguration('c64');
+        const viceBinary = config.get<string>('viceBinary') || 'x64';
+        const port = args.monitorPort ?? config.get<number>('viceMonitorPort', 6502);
+
+        const viceArgs = [
+            '-binarymonitor',
+            '-binarymonitoraddress', `ip4://127.0.0.1:${port}`,
+            '-autostartprgmode', '1',
+            ...(args.viceArgs ?? [])
+        ];
+
+        this.output(`Starting ${viceBinary} ${viceArgs.join(' ')}\n`);
+        const viceProcess = child_process.spawn(viceBinary, viceArgs, { stdio: 'ignore' });
+        this.viceProcess = viceProcess;
+
+        const spawnError = new Promise<never>((_, reject) => {
+            viceProcess.once('error', (error: NodeJS.ErrnoException) => {
+                reject(error.code === 'ENOENT'
+                    ? new Error(`VICE emulator not found: ${viceBinary}. Please install VICE or configure c64.viceBinary in settings.`)
+                    : error);
+            });
+        });
+        viceProcess.once('exit', (code) => {
+            this.output(`VICE exited${code !== null ? ` with code ${code}` : ''}\n`);
+            this.viceProcess = undefined;
+            this.terminate();
+        });
+
+        await Promise.race([this.monitor.connectWithRetry('127.0.0.1', port), spawnError]);
+    }
+
+    private async start(): Promise<void> {
+        // Honour .break directives from the source
+        for (const breakpoint of this.debugInfo?.breakpoints ?? []) {
+            await this.monitor.setCheckpoint(breakpoint.address);
+        }
+
+        if (this.prgPath) {
+            this.output(`Autostarting ${path.basename(this.prgPath)}\n`);
+            await this.monitor.autostart(this.prgPath, true);
+        }
+        await this.resume();
+    }
+
+    private async shutdown(): Promise<void> {
+        if (this.monitor.connected && this.viceProcess) {
+            try {
+                await this.monitor.quit();
+            } catch {
+                // VICE may close the connection before answering
+            }
+        }
+        this.monitor.close();
+        this.viceProcess?.kill();
+        this.viceProcess = undefined;
+    }
+
+    private terminate(): void {
+        if (this.terminated) {
+            return;
+        }
+        this.terminated = true;
+        this.sendEvent('terminated');
+    }
+
+    // Execution control
+
+    private async resume(): Promise<void> {
+        this.paused = false;
+        await this.monitor.exit();
+    }
+
+    private async stepLine(stepOver: boolean): Promise<void> {
+        const start = this.debugInfo?.locationForAddress(this.pc);
+
+        for (let i = 0; i < MAX_LINE_STEPS; i++) {
+            this.pc = await this.stepInstruction(stepOver);
+
+            const location = this.debugInfo?.locationForAddress(this.pc);
+            if (!start || (location && (location.file !== start.file || location.line !== start.line))) {
+                break;
+            }
+        }
+
+        this.reportStopped('step');
+    }
+
+    /**
+     * Execute one instruction and wait for VICE to stop again. Reads the
+     * PC when no stop is reported in time.
+     */
+    private stepInstruction(stepOver: boolean): Promise<number> {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.monitor.removeListener('stopped', onStopped);
+                this.monitor.getRegisters()
+                    .then(registers => resolve(registers.get('PC') ?? this.pc))
+                    .catch(reject);
+            }, 2000);
+            const onStopped = (pc: number) => {
+                clearTimeout(timer);
+                resolve(pc);
+            };
+            this.monitor.once('stopped', onStopped);
+            this.monitor.advanceInstructions(1, stepOver).catch((error) => {
+                clearTimeout(timer);
+                this.monitor.removeListener('stopped', onStopped);
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * Run a step whose request has already been answered. Failures are
+     * reported on the debug console, and the program is shown as stopped
+     * again while VICE is still connected.
+     */
+    private async step(action: () => Promise<void>): Promise<void> {
+        try {
+            await action();
+        } catch (error) {
+            this.stopReason = undefined;
+            const msg = error instanceof Error ? error.message : String(error);
+            this.output(`Step failed: ${msg}\n`);
+            if (this.monitor.connected) {
+                this.reportStopped('step');
+            }
+        }
+    }
+
+    private reportStopped(reason: string, description?: string): void {
+        this.paused = true;
+        this.sendEvent('stopped', { reason, description, threadId: THREAD_ID, allThreadsStopped: true });
+    }
+
+    /**
+     * Run a monitor command that makes VICE stop, then let it continue
+     * unless the user has paused the program.
+     */
+    private async whileStopped<T>(action: () => Promise<T>): Promise<T> {
+        const result = await action();
+        if (!this.paused && this.monitor.connected) {
+            await this.monitor.exit();
+        }
+        return result;
+    }
+
+    // Breakpoints
+
+    private async setBreakpoints(args: SetBreakpointsArguments): Promise<{ breakpoints: DapBreakpoint[] }> {
+        const sourcePath = args.source?.path ?? '';
+        const requested = args.breakpoints ?? [];
+
+        return this.whileStopped(async () => {
+            for (const existing of this.breakpoints.get(sourcePath) ?? []) {
+                for (const checkpoint of existing.checkpoints) {
+                    await this.monitor.deleteCheckpoint(checkpoint);
+                }
+            }
+
+            const installed: SourceBreakpoint[] = [];
+            const result: DapBreakpoint[] = [];
+
+            for (const bp of requested) {
+                const addresses = this.debugInfo?.addressesForLine(sourcePath, bp.line) ?? [];
+                if (addresses.length === 0) {
+                    result.push({ verified: false, line: bp.line, message: 'No code generated for this line' });
+                    continue;
+                }
+
+                const checkpoints: number[] = [];
+                for (const address of addresses) {
+                    const info = await this.monitor.setCheckpoint(address);
+                    checkpoints.push(info.number);
+                }
+                installed.push({ line: bp.line, checkpoints });
+                result.push({ verified: true, line: bp.line, instructionReference: formatAddress(addresses[0]) });
+            }
+
+            this.breakpoints.set(sourcePath, installed);
+            return { breakpoints: result };
+        });
+    }
+
+    // Inspection
+
+    private stackTrace(): { stackFrames: DapStackFrame[]; totalFrames: number } {
+        const location = this.debugInfo?.locationForAddress(this.pc);
+        const label = this.debugInfo?.labelForAddress(this.pc);
+
+        let name = formatAddress(this.pc);
+        if (label) {
+            const offset = this.pc - label.address;
+            name = offset === 0 ? label.name : `${label.name}+${offset}`;
+        }
+
+        const frame: DapStackFrame = {
+            id: 1,
+            name,
+            line: location?.line ?? 0,
+            column: location?.column ?? 0,
+            instructionPointerReference: formatAddress(this.pc)
+        };
+        if (location && fs.existsSync(location.file)) {
+            frame.source = { name: path.basename(location.file), path: location.file };
+        }
+
+        return { stackFrames: [frame], totalFrames: 1 };
+    }
+
+    private async variables(reference: number): Promise<DapVariable[]> {
+        switch (reference) {
+            case REGISTERS_REFERENCE: {
+                const registers = await this.whileStopped(() => this.monitor.getRegisters());
+                const variables: DapVariable[] = [];
+                for (const [name, value] of registers) {
+                    const width = name === 'PC' ? 4 : 2;
+                    variables.push({
+                        name,
+                        value: `$${value.toString(16).padStart(width, '0')}`,
+                        variablesReference: 0,
+                        memoryReference: name === 'PC' ? formatAddress(value) : undefined
+                    });
+                }
+                const flags = registers.get('FL');
+                if (flags !== undefined) {
+                    variables.push({ name: 'NV-BDIZC', value: formatFlags(flags), variablesReference: 0 });
+                }
+                return variables;
+            }
+            case ZERO_PAGE_REFERENCE:
+                return this.memoryRows(0x0000, 0x100);
+            case STACK_REFERENCE: {
+                const registers = await this.whileStopped(() => this.monitor.getRegisters());
+                const sp = registers.get('SP') ?? 0xff;
+                return this.memoryRows(0x0100 + ((sp + 1) & 0xff), 0xff - sp);
+            }
+            default:
+                return [];
+        }
+    }
+
+    private async memoryRows(start: number, length: number): Promise<DapVariable[]> {
+        const data = await this.whileStopped(() => this.monitor.readMemory(start, length));
+        const rows: DapVariable[] = [];
+        for (let offset = 0; offset < data.length; offset += 16) {
+            const address = start + offset;
+            rows.push({
+                name: formatAddress(address),
+                value: Array.from(data.subarray(offset, offset + 16))
+                    .map(b => b.toString(16).padStart(2, '0'))
+                    .join(' '),
+                variablesReference: 0,
+                memoryReference: formatAddress(address)
+            });
+        }
+        return rows;
+    }
+
+    private async setVariable(args: SetVariableArguments): Promise<{ value: string }> {
+        const value = parseNumber(args.value);
+        if (value === undefined) {
+            throw new Error(`Invalid value: ${args.value}`);
+        }
+        if (args.variablesReference !== REGISTERS_REFERENCE) {
+            throw new Error('Only registers can be modified');
+        }
+        await this.whileStopped(() => this.monitor.setRegister(args.name, value));
+        return { value: `$${value.toString(16)}` };
+    }
+
+    private async readMemory(args: ReadMemoryArguments): Promise<{ address: string; data: string; unreadableBytes?: number }> {
+        const base = parseNumber(args.memoryReference) ?? 0;
+        const start = base + (args.offset ?? 0);
+        const count = Math.max(0, Math.min(args.count ?? 0, 0x10000 - start));
+        const data = await this.whileStopped(() => this.monitor.readMemory(start, count));
+        return {
+            address: formatAddress(start),
+            data: data.toString('base64'),
+            unreadableBytes: (args.count ?? 0) - data.length
+        };
+    }
+
+    private async writeMemory(args: WriteMemoryArguments): Promise<{ bytesWritten: number }> {
+        const base = parseNumber(args.memoryReference) ?? 0;
+        const data = Buffer.from(args.data ?? '', 'base64');
+        await this.whileStopped(() => this.monitor.writeMemory(base + (args.offset ?? 0), data));
+        this.sendEvent('memory', { memoryReference: args.memoryReference, offset: args.offset ?? 0, count: data.length });
+        return { bytesWritten: data.length };
+    }
+
+    private async evaluate(expression: string): Promise<EvaluateResult> {
+        const trimmed = (expression ?? '').trim();
+
+        const registers = await this.whileStopped(() => this.monitor.getRegisters());
+        const register = registers.get(trimmed.toUpperCase());
+        if (register !== undefined) {
+            return { result: `$${register.toString(16)}`, variablesReference: 0 };
+        }
+
+        const label = this.debugInfo?.findLabel(trimmed);
+        const address = label ? label.address : parseNumber(trimmed);
+        if (address === undefined || address < 0 || address > 0xffff) {
+            throw new Error(`Cannot evaluate: ${trimmed}`);
+        }
+
+        const [value] = await this.whileStopped(() => this.monitor.readMemory(address, 1));
+        return {
+            result: `${formatAddress(address)}: $${value.toString(16).padStart(2, '0')} (${value})`,
+            variablesReference: 0,
+            memoryReference: formatAddress(address)
+        };
+    }
+
+    // Protocol
+
+    private output(text: string): void {
+        this.sendEvent('output', { category: 'console', output: text });
+    }
+
+    private sendEvent(event: string, body?: object): void {
+        const message: DapEvent = { seq: this.seq++, type: 'event', event, body };
+        this.sendMessage.fire(message);
+    }
+
+    private sendResponse(request: DapRequest, body?: object, error?: string): void {
+        const response: DapResponse = {
+            seq: this.seq++,
+            type: 'response',
+            request_seq: request.seq,
+            success: error === undefined,
+            command: request.command,
+            message: error,
+            body: error === undefined ? body : { error: { id: 1, format: error, showUser: true } }
+        };
+        this.sendMessage.fire(response);
+    }
+}
+
+export class ViceDebugAdapterFactory implements vscode.DebugAdapterDescriptorFactory {
+    constructor(private kickassService: KickassemblerService) {}
+
+    createDebugAdapterDescriptor(_session: vscode.DebugSession): vscode.ProviderResult<vscode.DebugAdapterDescriptor> {
+        return new vscode.DebugAdapterInlineImplementation(new ViceDebugSession(this.kickassService));
+    }
+}
+
+export class ViceDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
+    resolveDebugConfiguration(
+        _folder: vscode.WorkspaceFolder | undefined,
+        config: vscode.DebugConfiguration
+    ): vscode.ProviderResult<vscode.DebugConfiguration> {
+        // F5 without a launch.json: debug the active Kick Assembler file
+        if (!config.type && !config.request && !config.name) {
+            const editor = vscode.window.activeTextEditor;
+            if (editor && /\.(asm|kasm)$/.test(editor.document.fileName)) {
+                config.type = DEBUG_TYPE;
+                config.name = 'Debug in VICE';
+                config.request = 'launch';
+                config.program = editor.document.uri.fsPath;
+            }
+        }
+
+        if (!config.program) {
+            vscode.window.showErrorMessage('No program to debug. Open a .asm or .kasm file or set "program" in launch.json.');
+            return undefined;
+        }
+
+        return config;
+    }
+}
+
+function formatAddress(address: number): string {
+    return `$${address.toString(16).padStart(4, '0')}`;
+}
+
+function formatFlags(flags: number): string {
+    const names = 'NV-BDIZC';
+    let result = '';
+    for (let bit = 7; bit >= 0; bit--) {
+        result += (flags & (1 << bit)) ? names[7 - bit] : '.';
+    }
+    return result;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const trimmed = String(value).trim();
+    let parsed: number;
+    if (trimmed.startsWith('$')) {
+        parsed = parseInt(trimmed.substring(1), 16);
+    } else if (/^0x/i.test(trimmed)) {
+        parsed = parseInt(trimmed.substring(2), 16);
+    } else if (trimmed.startsWith('%')) {
+        parsed = parseInt(trimmed.substring(1), 2);
+    } else if (/^\d+$/.test(trimmed)) {
+        parsed = parseInt(trimmed, 10);
+    } else {
+        return undefined;
+    }
+    return isNaN(parsed) ? undefined : parsed;
+}
@@ -0,0 +1,207 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Parser for the C64debugger XML file written by Kick Assembler's
+ * `-debugdump` option. It maps address ranges to source lines and
+ * records labels and `.break` directives.
+ */
+
+export interface SourceLocation {
+    file: string;
+    line: number; // 1-based
+    column: number; // 1-based
+}
+
+export interface AddressRange extends SourceLocation {
+    start: number;
+    end: number;
+    segment: string;
+}
+
+export interface DebugLabel extends Partial<SourceLocation> {
+    name: string;
+    address: number;
+    segment: string;
+}
+
+export interface DebugBreakpoint {
+    address: number;
+    segment: string;
+    argument: string;
+}
+
+export class DebugInfo {
+    readonly sources: string[] = [];
+    readonly ranges: AddressRange[] = [];
+    readonly labels: DebugLabel[] = [];
+    readonly breakpoints: DebugBreakpoint[] = [];
+
+    static load(dbgPath: string): DebugInfo {
+        return DebugInfo.parse(fs.readFileSync(dbgPath, 'utf-8'));
+    }
+
+    static parse(xml: string): DebugInfo {
+        const info = new DebugInfo();
+
+        const sourcesMatch = xml.match(/<Sources\s+values="([^"]*)"\s*>([\s\S]*?)<\/Sources>/);
+        if (sourcesMatch) {
+            for (const row of parseRows(sourcesMatch[1], sourcesMatch[2])) {
+                const index = parseInt(row.INDEX, 10);
+                // Sources bundled in the jar look like "KickAss.jar:/include/autoinclude.asm"
+                info.sources[index] = row.FILE;
+            }
+        }
+
+        const segmentRegex = /<Segment\s+name="([^"]*)"[^>]*values="([^"]*)"\s*>([\s\S]*?)<\/Segment>/g;
+        let segmentMatch;
+        while ((segmentMatch = segmentRegex.exec(xml)) !== null) {
+            const [, segment, columns, content] = segmentMatch;
+            const blockRegex = /<Block[^>]*>([\s\S]*?)<\/Block>/g;
+            let blockMatch;
+            while ((blockMatch = blockRegex.exec(content)) !== null) {
+                for (const row of parseRows(columns, blockMatch[1])) {
+                    const file = info.sources[parseInt(row.FILE_IDX, 10)];
+                    if (file === undefined) {
+                        continue;
+                    }
+                    info.ranges.push({
+                        segment,
+                        start: parseAddress(row.START),
+                        end: parseAddress(row.END),
+                        file,
+                        line: parseInt(row.LINE1, 10),
+                        column: parseInt(row.COL1, 10)
+                    });
+                }
+            }
+        }
+
+        const labelsMatch = xml.match(/<Labels\s+values="([^"]*)"\s*>([\s\S]*?)<\/Labels>/);
+        if (labelsMatch) {
+            for (const row of parseRows(labelsMatch[1], labelsMatch[2])) {
+                const file = row.FILE_IDX !== undefined ? info.sources[parseInt(row.FILE_IDX, 10)] : undefined;
+                info.labels.push({
+                    segment: row.SEGMENT,
+                    address: parseAddress(row.ADDRESS),
+                    name: row.NAME,
+                    file,
+                    line: row.LINE1 !== undefined ? parseInt(row.LINE1, 10) : undefined,
+                    column: row.COL1 !== undefined ? parseInt(row.COL1, 10) : undefined
+                });
+            }
+        }
+
+        const breakpointsMatch = xml.match(/<Breakpoints\s+values="([^"]*)"\s*>([\s\S]*?)<\/Breakpoints>/);
+        if (breakpointsMatch) {
+            for (const row of parseRows(breakpointsMatch[1], breakpointsMatch[2])) {
+                info.breakpoints.push({
+                    segment: row.SEGMENT,
+                    address: parseAddress(row.ADDRESS),
+                    argument: row.ARGUMENT ?? ''
+                });
+            }
+        }
+
+        return info;
+    }
+
+    /**
+     * Start addresses of all code generated by a source line.
+     */
+    addressesForLine(file: string, line: number): number[] {
+        const target = normalizeForCompare(file);
+        return this.ranges
+            .filter(r => r.line === line && normalizeForCompare(r.file) === target)
+            .map(r => r.start);
+    }
+
+    /**
+     * Source location of the code at the given address. When several ranges
+     * cover the address (e.g. a macro call and its body) the narrowest wins.
+     */
+    locationForAddress(address: number): AddressRange | undefined {
+        let best: AddressRange | undefined;
+        for (const range of this.ranges) {
+            if (address >= range.start && address <= range.end) {
+                if (!best || (range.end - range.start) < (best.end - best.start)) {
+                    best = range;
+                }
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Closest label at or below the given address.
+     */
+    labelForAddress(address: number): DebugLabel | undefined {
+        let best: DebugLabel | undefined;
+        for (const label of this.labels) {
+            if (label.address <= address && (!best || label.address > best.address)) {
+                best = label;
+            }
+        }
+        return best;
+    }
+
+    findLabel(name: string): DebugLabel | undefined {
+        return this.labels.find(l => l.name === name);
+    }
+}
+
+/**
+ * Candidate locations of the debug dump for a build output. Kick Assembler
+ * names it after the output file, older versions after the source file.
+ */
+export function findDebugInfoFile(prgPath: string, sourcePath?: string): string | undefined {
+    const candidates = [prgPath.replace(/\.prg$/i, '.dbg')];
+    if (sourcePath) {
+        candidates.push(
+            path.join(path.dirname(prgPath), path.basename(sourcePath).replace(/\.(asm|kasm)$/, '.dbg')),
+            sourcePath.replace(/\.(asm|kasm)$/, '.dbg')
+        );
+    }
+    return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+function parseRows(columns: string, content: string): Record<string, string>[] {
+    const names = columns.split(',').map(c => c.trim());
+    const rows: Record<string, string>[] = [];
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.trim();
+        if (line === '') {
+            continue;
+        }
+        const values = line.split(',');
+        // The last column (e.g. FILE or ARGUMENT) may itself contain commas
+        if (values.length > names.length) {
+            values.splice(names.length - 1, values.length, values.slice(names.length - 1).join(','));
+        }
+        const row: Record<string, string> = {};
+        names.forEach((name, i) => {
+            if (values[i] !== undefined) {
+                row[name] = values[i].trim();
+            }
+        });
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+function parseAddress(value: string): number {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('$')) {
+        return parseInt(trimmed.substring(1), 16);
+    }
+    return parseInt(trimmed, 10);
+}
+
+function normalizeForCompare(file: string): string {
+    const normalized = path.normalize(file);
+    return process.platform === 'win32' || process.platform === 'darwin'
+        ? normalized.toLowerCase()
+        : normalized;
+}
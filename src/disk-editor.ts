@@ -0,0 +1,418 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    CbmFileType,
+    DiskFile,
+    DiskImage,
+    WRITABLE_FILE_TYPES,
+    diskFormatFromPath
+} from './disk-image';
+
+/** Messages from the editor page; entries are directory positions. */
+type DiskEditorMessage =
+    | { command: 'header'; name: string; id: string }
+    | { command: 'rename'; entry: number; name: string }
+    | { command: 'type'; entry: number; fileType: CbmFileType; locked: boolean }
+    | { command: 'move'; entry: number; to: number }
+    | { command: 'remove' | 'extract'; entry: number }
+    | { command: 'add' | 'validate' };
+
+/**
+ * A local D64/D71/D81 file opened in the disk image editor. Every change
+ * keeps a copy of the image before and after it for undo and redo.
+ */
+class DiskImageDocument implements vscode.CustomDocument {
+    private _image: DiskImage;
+    private _onDidChangeContent = new vscode.EventEmitter<void>();
+    readonly onDidChangeContent = this._onDidChangeContent.event;
+
+    constructor(readonly uri: vscode.Uri, data: Uint8Array) {
+        this._image = DiskImage.parse(Buffer.from(data), diskFormatFromPath(uri.path));
+    }
+
+    get image(): DiskImage {
+        return this._image;
+    }
+
+    /**
+     * Apply a change to the image. If it throws, the image is left as it
+     * was and the error is passed on.
+     */
+    edit(change: (image: DiskImage) => void): { undo: () => void; redo: () => void } {
+        const before = Buffer.from(this._image.data);
+        try {
+            change(this._image);
+        } catch (error) {
+            this.replace(before);
+            throw error;
+        }
+        const after = Buffer.from(this._image.data);
+        this._onDidChangeContent.fire();
+
+        return {
+            undo: () => this.replace(before),
+            redo: () => this.replace(after)
+        };
+    }
+
+    async save(target: vscode.Uri = this.uri): Promise<void> {
+        await vscode.workspace.fs.writeFile(target, this._image.data);
+    }
+
+    async revert(): Promise<void> {
+        this.replace(Buffer.from(await vscode.workspace.fs.readFile(this.uri)));
+    }
+
+    private replace(data: Buffer): void {
+        this._image = DiskImage.parse(Buffer.from(data), this._image.format);
+        this._onDidChangeContent.fire();
+    }
+
+    dispose(): void {
+        this._onDidChangeContent.dispose();
+    }
+}
+
+/**
+ * Custom editor for local disk images: directory listing with add, remove,
+ * rename, reorder, file type and lock changes, disk name and ID, and a BAM
+ * check.
+ */
+export class DiskImageEditorProvider implements vscode.CustomEditorProvider<DiskImageDocument> {
+    static readonly viewType = 'c64.diskImageEditor';
+
+    private _onDidChangeCustomDocument = new vscode.EventEmitter<vscode.CustomDocumentEditEvent<DiskImageDocument>>();
+    readonly onDidChangeCustomDocument = this._onDidChangeCustomDocument.event;
+
+    async openCustomDocument(
+        uri: vscode.Uri,
+        openContext: vscode.CustomDocumentOpenContext
+    ): Promise<DiskImageDocument> {
+        // A backup holds unsaved changes from before a reload
+        const data = await vscode.workspace.fs.readFile(
+            openContext.backupId ? vscode.Uri.parse(openContext.backupId) : uri
+        );
+        return new DiskImageDocument(uri, data);
+    }
+
+    async resolveCustomEditor(document: DiskImageDocument, panel: vscode.WebviewPanel): Promise<void> {
+        panel.webview.options = { enableScripts: true };
+
+        const render = (): void => {
+            panel.webview.html = this.getHtml(document);
+        };
+        const listener = document.onDidChangeContent(render);
+        panel.onDidDispose(() => listener.dispose());
+
+        panel.webview.onDidReceiveMessage(async (message: unknown) => {
+            const parsed = parseMessage(message);
+            if (!parsed) {
+                return;
+            }
+            try {
+                await this.handleMessage(document, parsed);
+            } catch (error) {
+                const msg = error instanceof Error ? error.message : String(error);
+                vscode.window.showErrorMessage(`Disk image: ${msg}`);
+                // Put back what the page shows, e.g. a rejected name
+                render();
+            }
+        });
+        render();
+    }
+
+    private async handleMessage(document: DiskImageDocument, message: DiskEditorMessage): Promise<void> {
+        switch (message.command) {
+            case 'header':
+                this.edit(document, 'Change Disk Name', image => {
+                    image.setDiskName(message.name);
+                    image.setDiskId(message.id);
+                });
+                break;
+            case 'rename':
+                this.edit(document, 'Rename File', image => image.renameFile(message.entry, message.name));
+                break;
+            case 'type':
+                this.edit(document, 'Change File Type', image => image.setFileType(message.entry, message.fileType, message.locked));
+                break;
+            case 'move':
+                this.edit(document, 'Move File', image => image.swapEntries(message.entry, message.to));
+                break;
+            case 'remove':
+                this.edit(document, 'Remove File', image => image.removeFile(message.entry));
+                break;
+            case 'add':
+                await this.addFiles(document);
+                break;
+            case 'extract':
+                await this.extractFile(document, message.entry);
+                break;
+            case 'validate':
+                await this.validate(document);
+                break;
+        }
+    }
+
+    private edit(document: DiskImageDocument, label: string, change: (image: DiskImage) => void): void {
+        const { undo, redo } = document.edit(change);
+        this._onDidChangeCustomDocument.fire({ document, label, undo, redo });
+    }
+
+    private async addFiles(document: DiskImageDocument): Promise<void> {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: 'Add to Disk',
+            defaultUri: vscode.Uri.joinPath(document.uri, '..')
+        });
+        if (!uris || uris.length === 0) {
+            return;
+        }
+
+        const files = await Promise.all(uris.map(async uri => ({
+            name: path.basename(uri.fsPath, path.extname(uri.fsPath)),
+            type: fileTypeForExtension(path.extname(uri.fsPath)),
+            data: Buffer.from(await vscode.workspace.fs.readFile(uri))
+        })));
+
+        // All or nothing: a full disk leaves the image unchanged
+        this.edit(document, 'Add Files', image => {
+            for (const file of files) {
+                image.addFile(file.name, file.type, file.data);
+            }
+        });
+    }
+
+    private async extractFile(document: DiskImageDocument, entry: number): Promise<void> {
+        const file = document.image.files.find(f => f.entry === entry);
+        if (!file) {
+            return;
+        }
+        const saveUri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(document.uri, '..', `${file.name.replace(/[\\/:*?"<>|]/g, '_').trim() || 'file'}.${file.type.toLowerCase()}`)
+        });
+        if (!saveUri) {
+            return;
+        }
+        await vscode.workspace.fs.writeFile(saveUri, document.image.readFile(file));
+        vscode.window.showInformationMessage(`Extracted ${file.name} to: ${saveUri.fsPath}`);
+    }
+
+    private async validate(document: DiskImageDocument): Promise<void> {
+        const problems = document.image.validate();
+        if (problems.length === 0) {
+            vscode.window.showInformationMessage('The BAM matches the directory and files.');
+            return;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Found ${problems.length} problem${problems.length === 1 ? '' : 's'} in the disk image.`,
+            { modal: true, detail: problems.join('\n') },
+            'Repair BAM'
+        );
+        if (choice === 'Repair BAM') {
+            this.edit(document, 'Repair BAM', image => image.repairBam());
+        }
+    }
+
+    async saveCustomDocument(document: DiskImageDocument): Promise<void> {
+        await document.save();
+    }
+
+    async saveCustomDocumentAs(document: DiskImageDocument, destination: vscode.Uri): Promise<void> {
+        await document.save(destination);
+    }
+
+    async revertCustomDocument(document: DiskImageDocument): Promise<void> {
+        await document.revert();
+    }
+
+    async backupCustomDocument(
+        document: DiskImageDocument,
+        context: vscode.CustomDocumentBackupContext
+    ): Promise<vscode.CustomDocumentBackup> {
+        await document.save(context.destination);
+        return {
+            id: context.destination.toString(),
+            delete: async () => {
+                try {
+                    await vscode.workspace.fs.delete(context.destination);
+                } catch {
+                    // Already gone
+                }
+            }
+        };
+    }
+
+    private getHtml(document: DiskImageDocument): string {
+        const nonce = Date.now().toString(36) + Math.random().toString(36).substring(2);
+        const image = document.image;
+
+        let files: DiskFile[] = [];
+        let listingError: string | undefined;
+        try {
+            files = image.files;
+        } catch (error) {
+            listingError = error instanceof Error ? error.message : String(error);
+        }
+
+        const rows = files.map((file, index) => {
+            const typeOptions = [...new Set<CbmFileType>([...WRITABLE_FILE_TYPES, file.type])]
+                .map(type => `<option${type === file.type ? ' selected' : ''}>${type}</option>`)
+                .join('');
+            const previous = files[index - 1]?.entry;
+            const next = files[index + 1]?.entry;
+            return `<tr data-entry="${file.entry}">
+                <td class="blocks">${file.blocks}</td>
+                <td><input class="name" maxlength="16" value="${escapeHtml(file.name)}"></td>
+                <td><select class="type">${typeOptions}</select></td>
+                <td><input type="checkbox" class="locked"${file.locked ? ' checked' : ''} title="Locked"></td>
+                <td>${file.closed ? '' : '<span title="Not closed">*</span>'}</td>
+                <td class="actions">
+                    <button data-action="move" data-to="${previous ?? ''}"${previous === undefined ? ' disabled' : ''} title="Move up">&#x25B2;</button>
+                    <button data-action="move" data-to="${next ?? ''}"${next === undefined ? ' disabled' : ''} title="Move down">&#x25BC;</button>
+                    <button data-action="extract" title="Save a copy of the file">Extract</button>
+                    <button data-action="remove" title="Scratch the file">Remove</button>
+                </td>
+            </tr>`;
+        }).join('\n');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        input, select, button { font-family: var(--vscode-editor-font-family); color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+        button { color: var(--vscode-button-secondaryForeground); background: var(--vscode-button-secondaryBackground); cursor: pointer; }
+        button:disabled { opacity: 0.4; cursor: default; }
+        .header input.name { width: 16ch; }
+        .header input.id { width: 2ch; }
+        table { border-collapse: collapse; margin-top: 1em; }
+        td, th { text-align: left; padding: 2px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+        td.blocks { text-align: right; font-family: var(--vscode-editor-font-family); }
+        td input.name { width: 18ch; }
+        .error { color: var(--vscode-errorForeground); }
+    </style>
+</head>
+<body>
+    <h2>${escapeHtml(path.basename(document.uri.fsPath))}</h2>
+    <p class="header">
+        Disk name <input class="name" id="diskName" maxlength="16" value="${escapeHtml(image.diskName)}">
+        ID <input class="id" id="diskId" maxlength="2" value="${escapeHtml(image.diskId)}">
+        &nbsp; ${image.format.toUpperCase()}, ${image.tracks} tracks, DOS type ${escapeHtml(image.dosType)}
+    </p>
+    <p>
+        <button id="add">Add Files...</button>
+        <button id="validate">Validate BAM</button>
+    </p>
+    ${listingError ? `<p class="error">Cannot read the directory: ${escapeHtml(listingError)}</p>` : ''}
+    <table>
+        <tr><th>Blocks</th><th>Name</th><th>Type</th><th>Lock</th><th></th><th></th></tr>
+        ${rows}
+        <tr><td class="blocks">${image.blocksFree}</td><td colspan="5">blocks free</td></tr>
+    </table>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const entryOf = element => Number(element.closest('tr').dataset.entry);
+
+        document.getElementById('add').addEventListener('click', () => vscode.postMessage({ command: 'add' }));
+        document.getElementById('validate').addEventListener('click', () => vscode.postMessage({ command: 'validate' }));
+        for (const id of ['diskName', 'diskId']) {
+            document.getElementById(id).addEventListener('change', () => vscode.postMessage({
+                command: 'header',
+                name: document.getElementById('diskName').value,
+                id: document.getElementById('diskId').value
+            }));
+        }
+
+        document.addEventListener('change', event => {
+            const target = event.target;
+            if (target.classList.contains('name') && target.closest('tr')) {
+                vscode.postMessage({ command: 'rename', entry: entryOf(target), name: target.value });
+            } else if (target.classList.contains('type') || target.classList.contains('locked')) {
+                const row = target.closest('tr');
+                vscode.postMessage({
+                    command: 'type',
+                    entry: entryOf(target),
+                    fileType: row.querySelector('.type').value,
+                    locked: row.querySelector('.locked').checked
+                });
+            }
+        });
+
+        document.addEventListener('click', event => {
+            const button = event.target.closest('button[data-action]');
+            if (!button) {
+                return;
+            }
+            const message = { command: button.dataset.action, entry: entryOf(button) };
+            if (button.dataset.action === 'move') {
+                message.to = Number(button.dataset.to);
+            }
+            vscode.postMessage(message);
+        });
+    </script>
+</body>
+</html>`;
+    }
+}
+
+/**
+ * The message if it carries what its command needs, so values from the page
+ * reach DiskImage only with the expected types.
+ */
+function parseMessage(message: unknown): DiskEditorMessage | undefined {
+    if (typeof message !== 'object' || message === null) {
+        return undefined;
+    }
+    const m = message as Record<string, unknown>;
+    const isEntry = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+    switch (m.command) {
+        case 'header':
+            return typeof m.name === 'string' && typeof m.id === 'string'
+                ? { command: m.command, name: m.name, id: m.id }
+                : undefined;
+        case 'rename':
+            return isEntry(m.entry) && typeof m.name === 'string'
+                ? { command: m.command, entry: m.entry, name: m.name }
+                : undefined;
+        case 'type':
+            return isEntry(m.entry) && typeof m.fileType === 'string' && typeof m.locked === 'boolean'
+                ? { command: m.command, entry: m.entry, fileType: m.fileType as CbmFileType, locked: m.locked }
+                : undefined;
+        case 'move':
+            return isEntry(m.entry) && isEntry(m.to)
+                ? { command: m.command, entry: m.entry, to: m.to }
+                : undefined;
+        case 'remove':
+        case 'extract':
+            return isEntry(m.entry) ? { command: m.command, entry: m.entry } : undefined;
+        case 'add':
+        case 'validate':
+            return { command: m.command };
+        default:
+            return undefined;
+    }
+}
+
+// File type for a file added from disk, by its extension
+function fileTypeForExtension(extension: string): CbmFileType {
+    switch (extension.toLowerCase()) {
+        case '.seq':
+            return 'SEQ';
+        case '.usr':
+            return 'USR';
+        default:
+            return 'PRG';
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,724 @@
+/**
+ * Commodore disk images: D64 (35 or 40 tracks), D71 and D81.
+ *
+ * Images are read and changed in place: the directory, the BAM and the
+ * track/sector chains of files. Changes follow what CBM DOS does (scratched
+ * entries keep their name, new files are placed around the directory track).
+ * This module has no dependency on the vscode API.
+ */
+
+export type DiskFormat = 'd64' | 'd71' | 'd81';
+export type CbmFileType = 'DEL' | 'SEQ' | 'PRG' | 'USR' | 'REL' | 'CBM' | 'DIR' | '???';
+
+export interface DiskFile {
+    /** Name decoded from PETSCII. */
+    name: string;
+    /** Name as stored, without the $A0 padding. */
+    rawName: Buffer;
+    type: CbmFileType;
+    locked: boolean;
+    /** False for "splat" files that were not closed properly. */
+    closed: boolean;
+    /** Size in blocks as recorded in the directory. */
+    blocks: number;
+    track: number;
+    sector: number;
+    /** Position of the entry in the directory, counting empty slots. */
+    entry: number;
+}
+
+export class DiskImageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DiskImageError';
+    }
+}
+
+const SECTOR_SIZE = 256;
+const FILE_TYPES: CbmFileType[] = ['DEL', 'SEQ', 'PRG', 'USR', 'REL', 'CBM', 'DIR'];
+/** File types that can be written; the others need side sectors or partitions. */
+export const WRITABLE_FILE_TYPES: CbmFileType[] = ['PRG', 'SEQ', 'USR', 'DEL'];
+
+// Image sizes, with and without the trailing error bytes
+const IMAGE_SIZES: { size: number; format: DiskFormat; tracks: number }[] = [
+    { size: 174848, format: 'd64', tracks: 35 },
+    { size: 175531, format: 'd64', tracks: 35 },
+    { size: 196608, format: 'd64', tracks: 40 },
+    { size: 197376, format: 'd64', tracks: 40 },
+    { size: 349696, format: 'd71', tracks: 70 },
+    { size: 351062, format: 'd71', tracks: 70 },
+    { size: 819200, format: 'd81', tracks: 80 },
+    { size: 822400, format: 'd81', tracks: 80 }
+];
+
+/**
+ * Disk format for a file name, or undefined if it is not a supported image.
+ */
+export function diskFormatFromPath(filePath: string): DiskFormat | undefined {
+    const match = filePath.toLowerCase().match(/\.(d64|d71|d81)$/);
+    return match ? match[1] as DiskFormat : undefined;
+}
+
+/**
+ * Sectors on a track. 1541 zones for D64 (repeated on the second side of a
+ * D71), 40 sectors per track on a D81.
+ */
+export function sectorsPerTrack(format: DiskFormat, track: number): number {
+    if (format === 'd81') {
+        return 40;
+    }
+    const t = format === 'd71' && track > 35 ? track - 35 : track;
+    if (t <= 17) {
+        return 21;
+    }
+    if (t <= 24) {
+        return 19;
+    }
+    if (t <= 30) {
+        return 18;
+    }
+    return 17;
+}
+
+/**
+ * File type as shown in a directory listing: `*PRG` for files that were
+ * not closed, `PRG<` for locked files.
+ */
+export function formatFileType(file: DiskFile): string {
+    return `${file.closed ? '' : '*'}${file.type}${file.locked ? '<' : ''}`;
+}
+
+/**
+ * Encode a name for the directory: letters become upper case PETSCII and
+ * characters without a PETSCII equivalent become "?".
+ */
+export function stringToPetscii(text: string, maxLength = 16): Buffer {
+    const bytes: number[] = [];
+    for (const char of text.toUpperCase().substring(0, maxLength)) {
+        const code = char.charCodeAt(0);
+        bytes.push(code >= 0x20 && code <= 0x5d ? code : 0x3f);
+    }
+    return Buffer.from(bytes);
+}
+
+/**
+ * Decode a PETSCII file or disk name for display.
+ */
+export function petsciiToString(bytes: Buffer): string {
+    let text = '';
+    for (const byte of bytes) {
+        if (byte >= 0x20 && byte <= 0x5d) {
+            text += String.fromCharCode(byte);
+        } else if (byte >= 0xc1 && byte <= 0xda) {
+            // Shifted letters
+            text += String.fromCharCode(byte - 0x80);
+        } else if (byte === 0xa0) {
+            text += ' ';
+        } else {
+            text += '?';
+        }
+    }
+    return text;
+}
+
+export class DiskImage {
+    private constructor(readonly format: DiskFormat, readonly data: Buffer, readonly tracks: number) {}
+
+    /**
+     * A new, empty (formatted) image. D64 images have 35 tracks.
+     */
+    static create(format: DiskFormat, diskName: string, diskId: string): DiskImage {
+        const layout = IMAGE_SIZES.find(l => l.format === format)!;
+        const image = new DiskImage(format, Buffer.alloc(layout.size), layout.tracks);
+        image.initialize(diskName, diskId);
+        return image;
+    }
+
+    /**
+     * Read an image. The format is taken from the size when not given.
+     */
+    static parse(data: Buffer, format?: DiskFormat): DiskImage {
+        const layout = IMAGE_SIZES.find(l => l.size === data.length && (!format || l.format === format));
+        if (!layout) {
+            throw new DiskImageError(
+                `Not a ${format ? format.toUpperCase() : 'D64, D71 or D81'} image (${data.length} bytes)`
+            );
+        }
+        return new DiskImage(layout.format, data, layout.tracks);
+    }
+
+    get diskName(): string {
+        return petsciiToString(this.headerBytes(this.format === 'd81' ? 0x04 : 0x90, 16, true));
+    }
+
+    get diskId(): string {
+        return petsciiToString(this.headerBytes(this.format === 'd81' ? 0x16 : 0xa2, 2, false));
+    }
+
+    get dosType(): string {
+        return petsciiToString(this.headerBytes(this.format === 'd81' ? 0x19 : 0xa5, 2, false));
+    }
+
+    /**
+     * Free blocks as counted in the BAM, leaving out the directory track(s).
+     */
+    get blocksFree(): number {
+        let free = 0;
+        for (let track = 1; track <= this.tracks; track++) {
+            if (!this.isDirectoryTrack(track)) {
+                free += this.freeSectorCount(track);
+            }
+        }
+        return free;
+    }
+
+    /**
+     * Files in directory order. Empty (scratched) entries are skipped.
+     */
+    get files(): DiskFile[] {
+        const files: DiskFile[] = [];
+        for (const [entry, offset] of this.directoryEntryOffsets().entries()) {
+            const typeByte = this.data[offset + 2];
+            if (typeByte === 0) {
+                continue;
+            }
+
+            const rawName = trimPadding(this.data.subarray(offset + 5, offset + 21));
+            files.push({
+                name: petsciiToString(rawName),
+                rawName: Buffer.from(rawName),
+                type: FILE_TYPES[typeByte & 0x0f] ?? '???',
+                locked: (typeByte & 0x40) !== 0,
+                closed: (typeByte & 0x80) !== 0,
+                blocks: this.data.readUInt16LE(offset + 30),
+                track: this.data[offset + 3],
+                sector: this.data[offset + 4],
+                entry
+            });
+        }
+        return files;
+    }
+
+    /**
+     * Contents of a file, following its sector chain. A PRG includes its
+     * two-byte load address.
+     */
+    readFile(file: DiskFile): Buffer {
+        const chunks: Buffer[] = [];
+        for (const { offset, used } of this.chain(file.track, file.sector)) {
+            chunks.push(this.data.subarray(offset + 2, offset + 2 + used));
+        }
+        return Buffer.concat(chunks);
+    }
+
+    setDiskName(name: string): void {
+        const header = this.headerOffset() + (this.format === 'd81' ? 0x04 : 0x90);
+        writePadded(this.data, header, stringToPetscii(name), 16);
+    }
+
+    setDiskId(id: string): void {
+        const bytes = stringToPetscii(id.padEnd(2, ' '), 2);
+        bytes.copy(this.data, this.headerOffset() + (this.format === 'd81' ? 0x16 : 0xa2));
+        if (this.format === 'd81') {
+            // The BAM sectors carry a copy of the ID
+            bytes.copy(this.data, this.sectorOffset(40, 1) + 4);
+            bytes.copy(this.data, this.sectorOffset(40, 2) + 4);
+        }
+    }
+
+    /**
+     * Write a new file. Throws when the disk or the directory is full; the
+     * image is unchanged in that case.
+     */
+    addFile(name: string, type: CbmFileType, contents: Buffer, locked = false): DiskFile {
+        if (!WRITABLE_FILE_TYPES.includes(type)) {
+            throw new DiskImageError(`Cannot write ${type} files`);
+        }
+
+        const blocks = Math.max(1, Math.ceil(contents.length / (SECTOR_SIZE - 2)));
+        if (blocks > this.blocksFree) {
+            throw new DiskImageError(`Disk full: ${name} needs ${blocks} blocks, ${this.blocksFree} free`);
+        }
+        const slot = this.freeDirectorySlot();
+
+        // Allocate the whole chain first, then fill it
+        const sectors: { track: number; sector: number }[] = [];
+        for (let i = 0; i < blocks; i++) {
+            sectors.push(this.allocateSector(sectors[sectors.length - 1], this.interleave()));
+        }
+        sectors.forEach(({ track, sector }, i) => {
+            const offset = this.sectorOffset(track, sector);
+            const chunk = contents.subarray(i * (SECTOR_SIZE - 2), (i + 1) * (SECTOR_SIZE - 2));
+            this.data.fill(0, offset, offset + SECTOR_SIZE);
+            const next = sectors[i + 1];
+            this.data[offset] = next ? next.track : 0;
+            this.data[offset + 1] = next ? next.sector : chunk.length + 1;
+            chunk.copy(this.data, offset + 2);
+        });
+
+        const offset = this.directoryEntryOffsets()[slot];
+        // Bytes 0-1 of an entry are the directory chain link in the first entry of a sector
+        this.data.fill(0, offset + 2, offset + 32);
+        this.data[offset + 2] = FILE_TYPES.indexOf(type) | 0x80 | (locked ? 0x40 : 0);
+        this.data[offset + 3] = sectors[0].track;
+        this.data[offset + 4] = sectors[0].sector;
+        writePadded(this.data, offset + 5, stringToPetscii(name), 16);
+        this.data.writeUInt16LE(blocks, offset + 30);
+
+        return this.files.find(file => file.entry === slot)!;
+    }
+
+    /**
+     * Scratch a file: free its sectors and clear the entry's type, like the
+     * DOS S: command. Locked files have to be unlocked first.
+     */
+    removeFile(entry: number): void {
+        const file = this.fileAt(entry);
+        if (file.locked) {
+            throw new DiskImageError(`${file.name} is locked`);
+        }
+        if (file.track !== 0) {
+            for (const { track, sector } of this.chain(file.track, file.sector)) {
+                this.setAllocated(track, sector, false);
+            }
+        }
+        this.data[this.directoryEntryOffsets()[entry] + 2] = 0;
+    }
+
+    renameFile(entry: number, name: string): void {
+        this.fileAt(entry);
+        writePadded(this.data, this.directoryEntryOffsets()[entry] + 5, stringToPetscii(name), 16);
+    }
+
+    setFileType(entry: number, type: CbmFileType, locked: boolean): void {
+        const file = this.fileAt(entry);
+        if (type !== file.type && !WRITABLE_FILE_TYPES.includes(type)) {
+            throw new DiskImageError(`Cannot change a file to ${type}`);
+        }
+        const offset = this.directoryEntryOffsets()[entry] + 2;
+        // Same type: only the lock changes, unknown types and other flag bits stay
+        const typeBits = type === file.type ? this.data[offset] & 0x3f : FILE_TYPES.indexOf(type);
+        this.data[offset] = typeBits | (this.data[offset] & 0x80) | (locked ? 0x40 : 0);
+    }
+
+    /**
+     * Swap two directory entries, e.g. to move a file up in the listing.
+     */
+    swapEntries(a: number, b: number): void {
+        const offsets = this.directoryEntryOffsets();
+        if (offsets[a] === undefined || offsets[b] === undefined) {
+            throw new DiskImageError(`No directory entry ${offsets[a] === undefined ? a : b}`);
+        }
+        const first = Buffer.from(this.data.subarray(offsets[a] + 2, offsets[a] + 32));
+        this.data.copy(this.data, offsets[a] + 2, offsets[b] + 2, offsets[b] + 32);
+        first.copy(this.data, offsets[b] + 2);
+    }
+
+    /**
+     * Compare the BAM with the sectors actually used by the directory and
+     * the files. Returns a description of each problem; empty when the BAM
+     * is consistent.
+     */
+    validate(): string[] {
+        const { used, problems } = this.usedSectors();
+
+        let usedButFree = 0;
+        let freeButAllocated = 0;
+        for (let track = 1; track <= this.tracks; track++) {
+            const bam = this.bamEntry(track);
+            if (!bam) {
+                continue;
+            }
+            let freeInBitmap = 0;
+            for (let sector = 0; sector < sectorsPerTrack(this.format, track); sector++) {
+                const free = this.isFree(track, sector);
+                const inUse = used.has(`${track}/${sector}`);
+                if (free) {
+                    freeInBitmap++;
+                }
+                if (free && inUse) {
+                    usedButFree++;
+                } else if (!free && !inUse && !this.isReserved(track)) {
+                    freeButAllocated++;
+                }
+            }
+            if (this.data[bam.countOffset] !== freeInBitmap) {
+                problems.push(`Track ${track}: BAM says ${this.data[bam.countOffset]} sectors free, bitmap has ${freeInBitmap}`);
+            }
+        }
+
+        if (usedButFree > 0) {
+            problems.push(`${usedButFree} sectors in use are marked free in the BAM`);
+        }
+        if (freeButAllocated > 0) {
+            problems.push(`${freeButAllocated} sectors are allocated in the BAM but not used by any file`);
+        }
+        return problems;
+    }
+
+    /**
+     * Rebuild the BAM from the directory and file chains, like the DOS V:
+     * command. Files that were not closed are left in the directory but
+     * their sectors are freed.
+     */
+    repairBam(): void {
+        const { used } = this.usedSectors();
+        for (let track = 1; track <= this.tracks; track++) {
+            const bam = this.bamEntry(track);
+            if (!bam) {
+                continue;
+            }
+            const count = sectorsPerTrack(this.format, track);
+            this.data.fill(0, bam.bitmapOffset, bam.bitmapOffset + Math.ceil(count / 8));
+            this.data[bam.countOffset] = 0;
+            for (let sector = 0; sector < count; sector++) {
+                if (!this.isReserved(track) && !used.has(`${track}/${sector}`)) {
+                    this.data[bam.bitmapOffset + (sector >> 3)] |= 1 << (sector & 7);
+                    this.data[bam.countOffset]++;
+                }
+            }
+        }
+    }
+
+    /** Byte offset of a sector in the image. */
+    private sectorOffset(track: number, sector: number): number {
+        if (track < 1 || track > this.tracks || sector < 0 || sector >= sectorsPerTrack(this.format, track)) {
+            throw new DiskImageError(`Illegal track/sector ${track}/${sector}`);
+        }
+        let offset = 0;
+        for (let t = 1; t < track; t++) {
+            offset += sectorsPerTrack(this.format, t) * SECTOR_SIZE;
+        }
+        return offset + sector * SECTOR_SIZE;
+    }
+
+    /**
+     * Sectors of a track/sector chain with the number of data bytes used in
+     * each. Stops with an error on a loop.
+     */
+    private *chain(track: number, sector: number): Generator<{ offset: number; used: number; track: number; sector: number }> {
+        const visited = new Set<string>();
+        while (track !== 0) {
+            const key = `${track}/${sector}`;
+            if (visited.has(key)) {
+                throw new DiskImageError(`Sector chain loops at ${key}`);
+            }
+            visited.add(key);
+
+            const offset = this.sectorOffset(track, sector);
+            const nextTrack = this.data[offset];
+            const nextSector = this.data[offset + 1];
+            // In the last sector the second byte is the index of the last used byte
+            const used = nextTrack === 0 ? Math.max(nextSector - 1, 0) : SECTOR_SIZE - 2;
+            yield { offset, used, track, sector };
+            track = nextTrack;
+            sector = nextSector;
+        }
+    }
+
+    /** Offsets of all directory entries, including empty ones. */
+    private directoryEntryOffsets(): number[] {
+        const header = this.headerOffset();
+        const offsets: number[] = [];
+        for (const { offset } of this.chain(this.data[header], this.data[header + 1])) {
+            for (let entry = 0; entry < 8; entry++) {
+                offsets.push(offset + entry * 32);
+            }
+        }
+        return offsets;
+    }
+
+    private headerOffset(): number {
+        return this.format === 'd81' ? this.sectorOffset(40, 0) : this.sectorOffset(18, 0);
+    }
+
+    private isDirectoryTrack(track: number): boolean {
+        if (this.format === 'd81') {
+            return track === 40;
+        }
+        return track === 18 || (this.format === 'd71' && track === 53);
+    }
+
+    /** Free sector count of a track as stored in the BAM. */
+    private freeSectorCount(track: number): number {
+        const bam = this.bamEntry(track);
+        return bam ? this.data[bam.countOffset] : 0;
+    }
+
+    /**
+     * Location of a track's BAM entry: the free count and the bitmap (one bit
+     * per sector, set when free). Undefined for the extra tracks of 40-track
+     * D64 images without a SpeedDOS or DolphinDOS BAM.
+     */
+    private bamEntry(track: number): { countOffset: number; bitmapOffset: number } | undefined {
+        switch (this.format) {
+            case 'd81': {
+                const bam = this.sectorOffset(40, track <= 40 ? 1 : 2);
+                const entry = bam + 0x10 + ((track - 1) % 40) * 6;
+                return { countOffset: entry, bitmapOffset: entry + 1 };
+            }
+            case 'd71':
+                if (track > 35) {
+                    return {
+                        countOffset: this.headerOffset() + 0xdd + (track - 36),
+                        bitmapOffset: this.sectorOffset(53, 0) + (track - 36) * 3
+                    };
+                }
+                break;
+            case 'd64':
+                if (track > 35) {
+                    const extended = this.extendedBamOffset();
+                    if (extended === undefined) {
+                        return undefined;
+                    }
+                    const entry = extended + (track - 36) * 4;
+                    return { countOffset: entry, bitmapOffset: entry + 1 };
+                }
+                break;
+        }
+        const entry = this.headerOffset() + 4 + (track - 1) * 4;
+        return { countOffset: entry, bitmapOffset: entry + 1 };
+    }
+
+    // SpeedDOS keeps the BAM of tracks 36-40 at $C0, DolphinDOS at $AC
+    private extendedBamOffset(): number | undefined {
+        const header = this.headerOffset();
+        for (const offset of [0xc0, 0xac]) {
+            if (this.data.subarray(header + offset, header + offset + 20).some(byte => byte !== 0)) {
+                return header + offset;
+            }
+        }
+        return undefined;
+    }
+
+    private fileAt(entry: number): DiskFile {
+        const file = this.files.find(f => f.entry === entry);
+        if (!file) {
+            throw new DiskImageError(`No file in directory entry ${entry}`);
+        }
+        return file;
+    }
+
+    /**
+     * Sectors used by the header, BAM, directory and closed files, with the
+     * problems found while following their chains.
+     */
+    private usedSectors(): { used: Set<string>; problems: string[] } {
+        const used = new Set<string>();
+        const problems: string[] = [];
+        const mark = (track: number, sector: number, owner: string): void => {
+            const key = `${track}/${sector}`;
+            if (used.has(key)) {
+                problems.push(`${owner}: sector ${key} is used twice`);
+            }
+            used.add(key);
+        };
+        const follow = (track: number, sector: number, owner: string): number => {
+            let count = 0;
+            try {
+                for (const s of this.chain(track, sector)) {
+                    mark(s.track, s.sector, owner);
+                    count++;
+                }
+            } catch (error) {
+                problems.push(`${owner}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            return count;
+        };
+
+        if (this.format === 'd81') {
+            [0, 1, 2].forEach(sector => mark(40, sector, 'Header'));
+        } else {
+            mark(18, 0, 'Header');
+        }
+        const header = this.headerOffset();
+        follow(this.data[header], this.data[header + 1], 'Directory');
+
+        let files: DiskFile[] = [];
+        try {
+            files = this.files;
+        } catch {
+            // Reported by following the directory above
+        }
+        for (const file of files) {
+            const owner = `"${file.name}"`;
+            if (!file.closed) {
+                problems.push(`${owner} was not closed (${formatFileType(file)})`);
+                continue;
+            }
+            if (file.track === 0) {
+                continue;
+            }
+            const blocks = follow(file.track, file.sector, owner);
+            if (file.type === 'REL') {
+                const offset = this.directoryEntryOffsets()[file.entry];
+                follow(this.data[offset + 21], this.data[offset + 22], `${owner} side sectors`);
+            } else if (blocks !== file.blocks) {
+                problems.push(`${owner}: directory says ${file.blocks} blocks, file has ${blocks}`);
+            }
+        }
+        return { used, problems };
+    }
+
+    /** Tracks that are allocated as a whole, like the BAM track of a D71. */
+    private isReserved(track: number): boolean {
+        return this.format === 'd71' && track === 53;
+    }
+
+    private interleave(): number {
+        return this.format === 'd81' ? 1 : 10;
+    }
+
+    private isFree(track: number, sector: number): boolean {
+        const bam = this.bamEntry(track);
+        if (!bam) {
+            return false;
+        }
+        return (this.data[bam.bitmapOffset + (sector >> 3)] & (1 << (sector & 7))) !== 0;
+    }
+
+    private setAllocated(track: number, sector: number, allocated: boolean): void {
+        const bam = this.bamEntry(track);
+        if (!bam || this.isFree(track, sector) !== allocated) {
+            return;
+        }
+        const byte = bam.bitmapOffset + (sector >> 3);
+        if (allocated) {
+            this.data[byte] &= ~(1 << (sector & 7));
+            this.data[bam.countOffset]--;
+        } else {
+            this.data[byte] |= 1 << (sector & 7);
+            this.data[bam.countOffset]++;
+        }
+    }
+
+    /**
+     * Allocate a data sector: on the track of the previous one, `interleave`
+     * sectors further on, or on the free track closest to the directory.
+     */
+    private allocateSector(previous: { track: number; sector: number } | undefined, interleave: number): { track: number; sector: number } {
+        if (previous) {
+            const found = this.allocateOnTrack(previous.track, previous.sector + interleave);
+            if (found) {
+                return found;
+            }
+        }
+
+        const directoryTrack = this.format === 'd81' ? 40 : 18;
+        for (let distance = 1; distance < this.tracks; distance++) {
+            for (const track of [directoryTrack - distance, directoryTrack + distance]) {
+                if (track < 1 || track > this.tracks || this.isDirectoryTrack(track)) {
+                    continue;
+                }
+                const found = this.allocateOnTrack(track, 0);
+                if (found) {
+                    return found;
+                }
+            }
+        }
+        throw new DiskImageError('Disk full');
+    }
+
+    /**
+     * Index of an empty directory entry, adding a directory sector when
+     * all are in use.
+     */
+    private freeDirectorySlot(): number {
+        const offsets = this.directoryEntryOffsets();
+        const free = offsets.findIndex(offset => this.data[offset + 2] === 0);
+        if (free !== -1) {
+            return free;
+        }
+
+        const directoryTrack = this.format === 'd81' ? 40 : 18;
+        let last: { track: number; sector: number } | undefined;
+        const header = this.headerOffset();
+        for (const s of this.chain(this.data[header], this.data[header + 1])) {
+            last = s;
+        }
+        if (!last) {
+            throw new DiskImageError('Directory has no sectors');
+        }
+
+        const next = this.allocateOnTrack(directoryTrack, last.sector + (this.format === 'd81' ? 1 : 3));
+        if (!next) {
+            throw new DiskImageError('Directory full');
+        }
+        const lastOffset = this.sectorOffset(last.track, last.sector);
+        this.data[lastOffset] = next.track;
+        this.data[lastOffset + 1] = next.sector;
+        const nextOffset = this.sectorOffset(next.track, next.sector);
+        this.data.fill(0, nextOffset, nextOffset + SECTOR_SIZE);
+        this.data[nextOffset + 1] = 0xff;
+        return offsets.length;
+    }
+
+    /** Allocate the first free sector of a track from `start` on, wrapping around. */
+    private allocateOnTrack(track: number, start: number): { track: number; sector: number } | undefined {
+        const count = sectorsPerTrack(this.format, track);
+        for (let i = 0; i < count; i++) {
+            const sector = (start + i) % count;
+            if (this.isFree(track, sector)) {
+                this.setAllocated(track, sector, true);
+                return { track, sector };
+            }
+        }
+        return undefined;
+    }
+
+    /** Write an empty directory and BAM. */
+    private initialize(diskName: string, diskId: string): void {
+        const header = this.headerOffset();
+        if (this.format === 'd81') {
+            this.data.set([40, 3, 0x44, 0x00], header);
+            this.data.fill(0xa0, header + 0x04, header + 0x1d);
+            Buffer.from('3D').copy(this.data, header + 0x19);
+            const bam1 = this.sectorOffset(40, 1);
+            const bam2 = this.sectorOffset(40, 2);
+            this.data.set([40, 2, 0x44, 0xbb, 0, 0, 0xc0, 0x00], bam1);
+            this.data.set([0, 0xff, 0x44, 0xbb, 0, 0, 0xc0, 0x00], bam2);
+        } else {
+            this.data.set([18, 1, 0x41, this.format === 'd71' ? 0x80 : 0x00], header);
+            this.data.fill(0xa0, header + 0x90, header + 0xab);
+            Buffer.from('2A').copy(this.data, header + 0xa5);
+        }
+
+        for (let track = 1; track <= this.tracks; track++) {
+            for (let sector = 0; sector < sectorsPerTrack(this.format, track); sector++) {
+                // Mark everything free by setting bits directly, counts follow
+                const bam = this.bamEntry(track)!;
+                this.data[bam.bitmapOffset + (sector >> 3)] |= 1 << (sector & 7);
+                this.data[bam.countOffset]++;
+            }
+            if (this.isReserved(track)) {
+                for (let sector = 0; sector < sectorsPerTrack(this.format, track); sector++) {
+                    this.setAllocated(track, sector, true);
+                }
+            }
+        }
+
+        const reserved = this.format === 'd81' ? [[40, 0], [40, 1], [40, 2], [40, 3]] : [[18, 0], [18, 1]];
+        reserved.forEach(([track, sector]) => this.setAllocated(track, sector, true));
+        const directory = this.sectorOffset(reserved[reserved.length - 1][0], reserved[reserved.length - 1][1]);
+        this.data[directory + 1] = 0xff;
+
+        this.setDiskName(diskName);
+        this.setDiskId(diskId);
+    }
+
+    private headerBytes(offset: number, length: number, trim: boolean): Buffer {
+        const start = this.headerOffset() + offset;
+        const bytes = this.data.subarray(start, start + length);
+        return trim ? trimPadding(bytes) : bytes;
+    }
+}
+
+function trimPadding(bytes: Buffer): Buffer {
+    const end = bytes.indexOf(0xa0);
+    return end === -1 ? bytes : bytes.subarray(0, end);
+}
+
+function writePadded(data: Buffer, offset: number, bytes: Buffer, length: number): void {
+    data.fill(0xa0, offset, offset + length);
+    bytes.subarray(0, length).copy(data, offset);
+}
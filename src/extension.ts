@@ -1,13 +1,31 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { LanguageClient, LanguageClientOptions, ServerOptions, Executable } from 'vscode-languageclient/node';
 import { KickassemblerService } from './kickassembler';
 import { ViceService } from './vice';
 import { C64UService } from './c64u/service';
 import { C64UFileSystemProvider } from './c64u/treeview';
 import { C64UTreeViewActions } from './c64u/treeview-actions';
+import { C64UBatchRunner } from './c64u/batch';
 import { C64UClient } from './c64u/client';
 import { getKickassLsPath, logBinaryResolution } from './binaries';
 import { initC64UCli } from './c64u/cli';
+import { C64UConnectionMonitor } from './c64u/connection';
+import { C64UDiskImageCache } from './c64u/disk-images';
+import { getActiveDevice, getDevices, initC64UDevices, onDidChangeActiveDevice, pickDevice, setActiveDevice } from './c64u/devices';
+import { C64UMemoryViewer } from './c64u/memory-viewer';
+import { C64UVideoViewer } from './c64u/video-viewer';
+import { C64USyncManager } from './c64u/sync-manager';
+import { C64UFileSystem, C64U_SCHEME, c64uUri } from './c64u/filesystem';
+import { BuildTarget, resolveBuildTargets, PROJECT_FILE } from './project';
+import { runnableKind } from './runnable';
+import { KickassTaskProvider, TASK_TYPE } from './tasks';
+import { WatchModeController } from './watch';
+import { MemoryMapPanel } from './memory-map';
+import { DiskImageEditorProvider } from './disk-editor';
+import { SymbolIndex } from './symbol-index';
+import { ViceProfiles } from './vice-profiles';
+import { DEBUG_TYPE, ViceDebugAdapterFactory, ViceDebugConfigurationProvider } from './debug/adapter';
 
 let client: LanguageClient | undefined;
 let kickassService: KickassemblerService;
@@ -23,21 +41,38 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Initialize binary resolution for c64u CLI
     initC64UCli(context.extensionPath);
+    initC64UDevices(context.workspaceState);
 
     // Initialize services - these create DiagnosticCollections
-    kickassService = new KickassemblerService();
-    viceService = new ViceService();
+    kickassService = new KickassemblerService(context.extensionPath);
+    const symbolIndex = new SymbolIndex(kickassService);
+    const viceProfiles = new ViceProfiles(context.workspaceState);
+    viceService = new ViceService(symbolIndex, viceProfiles);
 
     // Register kickassService for disposal (has DiagnosticCollection)
-    context.subscriptions.push(kickassService);
+    context.subscriptions.push(kickassService, symbolIndex, viceService);
+
+    // Labels of the last build as workspace symbols and on hover
+    context.subscriptions.push(
+        vscode.languages.registerWorkspaceSymbolProvider(symbolIndex),
+        vscode.languages.registerHoverProvider({ language: 'kickass' }, symbolIndex),
+        vscode.commands.registerCommand('c64.goToAddress', async () => {
+            await symbolIndex.goToAddress();
+        })
+    );
 
     // Always initialize C64 Ultimate service
     // It will check enabled status and configuration at runtime
     c64uService = new C64UService();
+    context.subscriptions.push(c64uService);
 
     // Initialize C64U Tree View
     const c64uConfig = vscode.workspace.getConfiguration('c64u');
-    const treeDataProvider = new C64UFileSystemProvider(c64uConfig);
+    const connection = new C64UConnectionMonitor();
+    const diskImages = new C64UDiskImageCache();
+    const batchRunner = new C64UBatchRunner();
+    context.subscriptions.push(batchRunner);
+    const treeDataProvider = new C64UFileSystemProvider(c64uConfig, connection, diskImages, batchRunner);
     const treeView = vscode.window.createTreeView('c64u.fileExplorer', {
         treeDataProvider: treeDataProvider,
         showCollapseAll: true,
@@ -50,23 +85,38 @@ export function activate(context: vscode.ExtensionContext) {
     const c64uClient = new C64UClient();
     const treeActions = new C64UTreeViewActions(
         c64uClient,
-        () => treeDataProvider.refresh(),
-        context.globalStorageUri.fsPath
+        (dirPath) => treeDataProvider.refresh(dirPath),
+        diskImages,
+        batchRunner
     );
-    context.subscriptions.push(treeActions);
 
-    // Register Tree View commands
+    // c64u://<device>/<path>, used to open remote files and as workspace folders
+    const fileSystem = new C64UFileSystem(c64uClient);
     context.subscriptions.push(
-        vscode.commands.registerCommand('c64u.treeview.refresh', () => {
-            treeDataProvider.refresh();
+        vscode.workspace.registerFileSystemProvider(C64U_SCHEME, fileSystem),
+        fileSystem.onDidChangeFile(events => {
+            const active = getActiveDevice().name.toLowerCase();
+            for (const event of events) {
+                if (event.uri.authority.toLowerCase() === active && event.type !== vscode.FileChangeType.Changed) {
+                    treeDataProvider.refresh(path.posix.dirname(event.uri.path));
+                }
+            }
         })
     );
 
+    const memoryViewer = new C64UMemoryViewer(c64uService, connection);
+    context.subscriptions.push(memoryViewer);
+
+    const videoViewer = new C64UVideoViewer();
+    context.subscriptions.push(videoViewer);
+
+    const syncManager = new C64USyncManager(c64uClient, context.workspaceState);
+    context.subscriptions.push(syncManager);
+
+    // Register Tree View commands
     context.subscriptions.push(
-        vscode.commands.registerCommand('c64u.treeview.navigate', async (item) => {
-            if (item) {
-                treeDataProvider.navigateTo(item.resourcePath);
-            }
+        vscode.commands.registerCommand('c64u.treeview.refresh', () => {
+            treeDataProvider.refresh();
         })
     );
 
@@ -77,8 +127,8 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('c64u.treeview.delete', async (item) => {
-            await treeActions.deleteFile(item);
+        vscode.commands.registerCommand('c64u.treeview.delete', async (item, selected) => {
+            await treeActions.deleteFile(item, selected);
         })
     );
 
@@ -89,8 +139,16 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('c64u.treeview.copy', async (item) => {
-            await treeActions.copyFile(item);
+        vscode.commands.registerCommand('c64u.treeview.copy', async (item, selected) => {
+            await treeActions.copyFile(item, selected);
+        })
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.treeview.copyTo', async (item, selected) => {
+            await treeActions.copyTo(item, selected);
+        }),
+        vscode.commands.registerCommand('c64u.treeview.moveTo', async (item, selected) => {
+            await treeActions.moveTo(item, selected);
         })
     );
 
@@ -119,8 +177,8 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('c64u.treeview.download', async (item) => {
-            await treeActions.downloadFile(item);
+        vscode.commands.registerCommand('c64u.treeview.download', async (item, selected) => {
+            await treeActions.downloadFile(item, selected);
         })
     );
 
@@ -136,12 +194,59 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.treeview.runCrt', async (item) => {
+            await treeActions.runCrt(item);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.treeview.runDisk', async (item) => {
+            await treeActions.runDiskImage(item);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.treeview.playSid', async (item) => {
+            await treeActions.playSid(item);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.treeview.playMod', async (item) => {
+            await treeActions.playMod(item);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.treeview.extractFromDisk', async (item) => {
+            await treeActions.extractFromDiskImage(item);
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.treeview.runFromDisk', async (item) => {
+            await treeActions.runFromDiskImage(item);
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('c64u.treeview.machine', async (action: string) => {
             await c64uService!.executeMachineAction(action);
         })
     );
 
+    // Register the kickass task type
+    context.subscriptions.push(
+        vscode.tasks.registerTaskProvider(TASK_TYPE, new KickassTaskProvider())
+    );
+
+    // Register the VICE debugger
+    context.subscriptions.push(
+        vscode.debug.registerDebugAdapterDescriptorFactory(DEBUG_TYPE, new ViceDebugAdapterFactory(kickassService)),
+        vscode.debug.registerDebugConfigurationProvider(DEBUG_TYPE, new ViceDebugConfigurationProvider())
+    );
+
     // Start Language Server first
     startLanguageServer(context);
 
@@ -150,56 +255,142 @@ export function activate(context: vscode.ExtensionContext) {
     autoDetectKickassFiles(context);
 
     // Register Kickassembler commands
+    // Builds use the enclosing c64project.json when there is one, so they work
+    // from any include file (or without an editor at all)
     context.subscriptions.push(
         vscode.commands.registerCommand('c64.assemble', async () => {
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                vscode.window.showErrorMessage('No active editor');
-                return;
-            }
-            await kickassService.assemble(editor.document.uri.fsPath);
+            await kickassService.build(activeSourceFile());
         })
     );
 
     context.subscriptions.push(
         vscode.commands.registerCommand('c64.run', async () => {
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                vscode.window.showErrorMessage('No active editor');
+            const target = resolveRunTarget();
+            if (!target) {
                 return;
             }
-            const prgPath = editor.document.uri.fsPath.replace(/\.(asm|kasm)$/, '.prg');
-            await viceService.run(prgPath);
+            const profile = await viceProfiles.pick();
+            if (profile) {
+                await viceService.run(target.outputFile, profile, target.disk?.image);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64.stopVice', async () => {
+            await viceService.stop();
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64.restartVice', async () => {
+            await viceService.restart();
         })
     );
 
     context.subscriptions.push(
         vscode.commands.registerCommand('c64.assembleAndRun', async () => {
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                vscode.window.showErrorMessage('No active editor');
-                return;
+            const target = await kickassService.build(activeSourceFile());
+            if (target) {
+                await viceService.run(target.outputFile, undefined, target.disk?.image);
             }
-            const success = await kickassService.assemble(editor.document.uri.fsPath);
-            if (success) {
-                const prgPath = editor.document.uri.fsPath.replace(/\.(asm|kasm)$/, '.prg');
-                await viceService.run(prgPath);
+        })
+    );
+
+    // Run a PRG, cartridge, disk image or SID from the explorer or the editor
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64.runFile', async (uri?: vscode.Uri) => {
+            const filePath = runnableFile(uri);
+            if (filePath) {
+                await viceService.runFile(filePath);
             }
         })
     );
 
+    const watchMode = new WatchModeController(kickassService, viceService, c64uService);
+    context.subscriptions.push(watchMode);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64.toggleWatch', () => {
+            watchMode.toggle(activeSourceFile());
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.window.registerCustomEditorProvider(DiskImageEditorProvider.viewType, new DiskImageEditorProvider(), {
+            supportsMultipleEditorsPerDocument: false
+        })
+    );
+
+    const memoryMap = new MemoryMapPanel(kickassService);
+    context.subscriptions.push(memoryMap);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64.showMemoryMap', () => {
+            memoryMap.show();
+        })
+    );
+
     // Register C64 Ultimate commands (always register, check enabled state at runtime)
     context.subscriptions.push(
         vscode.commands.registerCommand('c64u.uploadAndRun', async () => {
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                vscode.window.showErrorMessage('No active editor');
+            const target = await kickassService.build(activeSourceFile());
+            if (target) {
+                await c64uService!.uploadAndRun(target.outputFile, undefined, target.disk?.image);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.previewDeploy', () => {
+            const target = resolveRunTarget();
+            if (target) {
+                c64uService!.previewDeployment(target.outputFile, target.disk?.image);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.runFile', async (uri?: vscode.Uri) => {
+            const filePath = runnableFile(uri);
+            if (filePath) {
+                await c64uService!.runFile(filePath);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.uploadAndRunOnDevice', async (item?: { label: string }) => {
+            // From the Devices tree node, or ask which device to use
+            const device = item
+                ? getDevices().find(d => d.name === item.label)
+                : await pickDevice('Select C64 Ultimate to run on');
+            if (!device) {
                 return;
             }
-            const success = await kickassService.assemble(editor.document.uri.fsPath);
-            if (success) {
-                const prgPath = editor.document.uri.fsPath.replace(/\.(asm|kasm)$/, '.prg');
-                await c64uService!.uploadAndRun(prgPath);
+            const target = await kickassService.build(activeSourceFile());
+            if (target) {
+                await c64uService!.uploadAndRun(target.outputFile, device, target.disk?.image);
+            }
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.selectDevice', async (name?: string) => {
+            const deviceName = name ?? (await pickDevice('Select active C64 Ultimate'))?.name;
+            if (deviceName) {
+                await setActiveDevice(deviceName);
+            }
+        })
+    );
+
+    // Tree contents follow device switches and reconnects
+    context.subscriptions.push(
+        connection,
+        onDidChangeActiveDevice(() => treeDataProvider.refresh()),
+        connection.onDidChangeState(state => {
+            if (state !== 'unknown') {
+                treeDataProvider.refresh();
             }
         })
     );
@@ -216,6 +407,54 @@ export function activate(context: vscode.ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('c64u.memoryViewer', () => {
+            memoryViewer.show();
+        }),
+        vscode.commands.registerCommand('c64u.videoStream', async () => {
+            await videoViewer.show();
+        }),
+        vscode.commands.registerCommand('c64u.addToWorkspace', (item?) => {
+            // A directory of the tree, or the whole device from the palette
+            const device = getActiveDevice();
+            const remotePath = item?.itemType === 'directory' ? item.resourcePath : '/';
+            const uri = c64uUri(device, remotePath);
+            const folders = vscode.workspace.workspaceFolders ?? [];
+            if (folders.some(folder => folder.uri.toString() === uri.toString())) {
+                vscode.window.showInformationMessage(`${remotePath} on ${device.name} is already in the workspace`);
+                return;
+            }
+            vscode.workspace.updateWorkspaceFolders(folders.length, 0, {
+                uri,
+                name: remotePath === '/' ? device.name : `${device.name}: ${path.posix.basename(remotePath)}`
+            });
+        }),
+        vscode.commands.registerCommand('c64u.sync.configure', async () => {
+            await syncManager.configure();
+        }),
+        vscode.commands.registerCommand('c64u.sync.synchronize', async () => {
+            await syncManager.synchronize();
+        }),
+        vscode.commands.registerCommand('c64u.sync.push', async () => {
+            await syncManager.transfer('push');
+        }),
+        vscode.commands.registerCommand('c64u.sync.pull', async () => {
+            await syncManager.transfer('pull');
+        }),
+        vscode.commands.registerCommand('c64u.peek', async () => {
+            await c64uService!.peekMemory();
+        }),
+        vscode.commands.registerCommand('c64u.poke', async () => {
+            await c64uService!.pokeMemory();
+        }),
+        vscode.commands.registerCommand('c64u.loadIntoMemory', async (uri?: vscode.Uri) => {
+            await c64uService!.loadIntoMemory(uri);
+        }),
+        vscode.commands.registerCommand('c64u.dumpMemory', async () => {
+            await c64uService!.dumpMemory();
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('c64u.upload', async () => {
             await c64uService!.uploadFile();
@@ -291,6 +530,48 @@ export function activate(context: vscode.ExtensionContext) {
     );
 }
 
+/**
+ * File of the active editor, if any.
+ */
+function activeSourceFile(): string | undefined {
+    const editor = vscode.window.activeTextEditor;
+    return editor?.document.uri.scheme === 'file' ? editor.document.uri.fsPath : undefined;
+}
+
+/**
+ * File to run: the one clicked in the explorer or editor title, otherwise
+ * the active editor (including the disk image editor).
+ */
+function runnableFile(uri?: vscode.Uri): string | undefined {
+    const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+    const target = uri
+        ?? (input instanceof vscode.TabInputCustom || input instanceof vscode.TabInputText ? input.uri : undefined);
+    if (target?.scheme !== 'file' || !runnableKind(target.fsPath)) {
+        vscode.window.showErrorMessage('Select a PRG, CRT, disk image, SID or MOD file to run');
+        return undefined;
+    }
+    return target.fsPath;
+}
+
+/**
+ * Primary target of the active file or its project, whose PRG (or disk
+ * image) is the one to run.
+ */
+function resolveRunTarget(): BuildTarget | undefined {
+    try {
+        const targets = resolveBuildTargets(activeSourceFile());
+        if (targets.length === 0) {
+            vscode.window.showErrorMessage(`No active editor and no ${PROJECT_FILE} in the workspace`);
+            return undefined;
+        }
+        return targets[0];
+    } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(msg);
+        return undefined;
+    }
+}
+
 function startLanguageServer(context: vscode.ExtensionContext) {
     // Resolve kickass_ls binary path (settings > PATH > bundled)
     const lsResolution = getKickassLsPath(context.extensionPath);
@@ -0,0 +1,189 @@
+import * as zlib from 'zlib';
+
+/**
+ * An image of palette indices, row by row.
+ */
+export interface IndexedImage {
+    width: number;
+    height: number;
+    pixels: Uint8Array;
+}
+
+export type Palette = [number, number, number][];
+
+/**
+ * Encode an indexed image as an 8-bit palette PNG.
+ */
+export function encodePng(image: IndexedImage, palette: Palette): Buffer {
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(image.width, 0);
+    header.writeUInt32BE(image.height, 4);
+    header[8] = 8; // bit depth
+    header[9] = 3; // colour type: palette
+    // compression, filter and interlace methods stay 0
+
+    // Every row starts with filter type 0 (none)
+    const raw = Buffer.alloc((image.width + 1) * image.height);
+    for (let y = 0; y < image.height; y++) {
+        raw.set(image.pixels.subarray(y * image.width, (y + 1) * image.width), y * (image.width + 1) + 1);
+    }
+
+    return Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        pngChunk('IHDR', header),
+        pngChunk('PLTE', Buffer.from(palette.flat())),
+        pngChunk('IDAT', zlib.deflateSync(raw)),
+        pngChunk('IEND', Buffer.alloc(0))
+    ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+    const chunk = Buffer.alloc(12 + data.length);
+    chunk.writeUInt32BE(data.length, 0);
+    chunk.write(type, 4, 'latin1');
+    data.copy(chunk, 8);
+    chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+    return chunk;
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Buffer): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode frames of the same size as a looping GIF. The palette may have up
+ * to 256 colours; the delay is in hundredths of a second per frame.
+ */
+export function encodeGif(frames: IndexedImage[], palette: Palette, delay: number): Buffer {
+    if (frames.length === 0) {
+        throw new Error('No frames to encode');
+    }
+    const { width, height } = frames[0];
+
+    // The colour table size is a power of two, at least 2 entries
+    let tableBits = 1;
+    while (1 << tableBits < palette.length) {
+        tableBits++;
+    }
+    const colorTable = Buffer.alloc(3 << tableBits);
+    colorTable.set(palette.flat());
+
+    const parts: Buffer[] = [];
+    const screen = Buffer.alloc(13);
+    screen.write('GIF89a', 0, 'latin1');
+    screen.writeUInt16LE(width, 6);
+    screen.writeUInt16LE(height, 8);
+    screen[10] = 0x80 | ((tableBits - 1) << 4) | (tableBits - 1); // global colour table
+    parts.push(screen, colorTable);
+
+    // Loop forever
+    parts.push(Buffer.from([0x21, 0xff, 0x0b, ...Buffer.from('NETSCAPE2.0', 'latin1'), 0x03, 0x01, 0x00, 0x00, 0x00]));
+
+    const minCodeSize = Math.max(tableBits, 2);
+    for (const frame of frames) {
+        if (frame.width !== width || frame.height !== height) {
+            continue;
+        }
+        const control = Buffer.from([0x21, 0xf9, 0x04, 0x00, 0, 0, 0x00, 0x00]);
+        control.writeUInt16LE(delay, 4);
+
+        const descriptor = Buffer.alloc(10);
+        descriptor[0] = 0x2c;
+        descriptor.writeUInt16LE(width, 5);
+        descriptor.writeUInt16LE(height, 7);
+
+        parts.push(control, descriptor, Buffer.from([minCodeSize]), subBlocks(lzwEncode(frame.pixels, minCodeSize)));
+    }
+
+    parts.push(Buffer.from([0x3b]));
+    return Buffer.concat(parts);
+}
+
+/**
+ * GIF flavour of LZW: variable code size up to 12 bits, codes packed
+ * least significant bit first, table reset with a clear code when full.
+ */
+function lzwEncode(pixels: Uint8Array, minCodeSize: number): Buffer {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const output: number[] = [];
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let table = new Map<number, number>();
+    let bits = 0;
+    let bitCount = 0;
+
+    const emit = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            output.push(bits & 0xff);
+            bits >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    emit(clearCode);
+    if (pixels.length === 0) {
+        emit(endCode);
+        return Buffer.from(bitCount > 0 ? [...output, bits & 0xff] : output);
+    }
+
+    let prefix = pixels[0];
+    for (let i = 1; i < pixels.length; i++) {
+        const pixel = pixels[i];
+        const key = (prefix << 8) | pixel;
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+
+        emit(prefix);
+        if (nextCode === 4096) {
+            emit(clearCode);
+            table = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) {
+                codeSize++;
+            }
+            table.set(key, nextCode++);
+        }
+        prefix = pixel;
+    }
+    emit(prefix);
+    emit(endCode);
+    if (bitCount > 0) {
+        output.push(bits & 0xff);
+    }
+    return Buffer.from(output);
+}
+
+// Image data goes in blocks of at most 255 bytes, ended by an empty one
+function subBlocks(data: Buffer): Buffer {
+    const parts: Buffer[] = [];
+    for (let offset = 0; offset < data.length; offset += 255) {
+        const block = data.subarray(offset, offset + 255);
+        parts.push(Buffer.from([block.length]), block);
+    }
+    parts.push(Buffer.from([0]));
+    return Buffer.concat(parts);
+}
@@ -2,18 +2,153 @@ import * as vscode from 'vscode';
 import * as child_process from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
+import { BuildTarget, DiskTarget, PROJECT_FILE, resolveBuildTargets } from './project';
+import { DiskImage, diskFormatFromPath, petsciiToString, stringToPetscii } from './disk-image';
+import { BuildTimeoutError, KickassBuildServer } from './build-server';
+
+/**
+ * Kick Assembler arguments to assemble a build target.
+ */
+export function assemblerArgs(target: BuildTarget): string[] {
+    // -debugdump writes the .dbg source map used by the VICE debugger,
+    // -showmem and -symbolfile feed the memory map
+    const args = [target.source, '-o', target.outputFile, '-debugdump', '-showmem', '-symbolfile'];
+    for (const libDir of target.libDirs) {
+        args.push('-libdir', libDir);
+    }
+    for (const [name, value] of Object.entries(target.defines)) {
+        args.push(`:${name}=${value}`);
+    }
+    args.push(...target.flags);
+    return args;
+}
+
+/**
+ * Java command line arguments to assemble a build target.
+ */
+export function kickassArgs(kickassJarPath: string, target: BuildTarget): string[] {
+    return ['-jar', kickassJarPath, ...assemblerArgs(target)];
+}
+
+export interface BuildOptions {
+    /** Cancels the build and kills a running Kick Assembler process. */
+    token?: vscode.CancellationToken;
+    /** Don't reveal the output channel or show notifications (e.g. watch mode). */
+    quiet?: boolean;
+}
+
+export interface BuildResult {
+    target: BuildTarget;
+    success: boolean;
+    /** Kick Assembler output, including the -showmem memory map. */
+    output: string;
+    /** Build time in milliseconds. */
+    duration: number;
+}
+
+interface AssemblyResult {
+    output: string;
+    exitCode: number | string | null | undefined;
+    timedOut: boolean;
+}
 
 export class KickassemblerService {
     private outputChannel: vscode.OutputChannel;
     private diagnosticCollection: vscode.DiagnosticCollection;
+    // Diagnostics per build target (keyed by source), then per reported file
+    private buildDiagnostics: Map<string, Map<string, vscode.Diagnostic[]>> = new Map();
+    private buildServer: KickassBuildServer;
+    private buildEmitter = new vscode.EventEmitter<BuildResult>();
+    /** Fires after each build target was assembled (not when cancelled). */
+    readonly onDidBuild: vscode.Event<BuildResult> = this.buildEmitter.event;
 
-    constructor() {
+    constructor(extensionPath: string) {
         this.outputChannel = vscode.window.createOutputChannel('Kick Assembler');
         // Use a unique name to avoid conflicts with LSP diagnostics
         this.diagnosticCollection = vscode.languages.createDiagnosticCollection('kickass-assembler');
+        this.buildServer = new KickassBuildServer(extensionPath, line => this.outputChannel.appendLine(line));
+    }
+
+    /**
+     * Build the project the given file belongs to (c64project.json), or the
+     * file itself when it is not part of a project. Returns the primary
+     * target, whose PRG is the one to run, when every target assembled.
+     * A project with a disk image gets its PRGs packed into it afterwards.
+     */
+    async build(filePath?: string, options: BuildOptions = {}): Promise<BuildTarget | undefined> {
+        let targets: BuildTarget[];
+        try {
+            targets = resolveBuildTargets(filePath);
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(msg);
+            return undefined;
+        }
+
+        if (targets.length === 0) {
+            vscode.window.showErrorMessage(`No active editor and no ${PROJECT_FILE} in the workspace`);
+            return undefined;
+        }
+
+        this.outputChannel.clear();
+        if (!options.quiet) {
+            this.outputChannel.show(true);
+        }
+
+        for (const target of targets) {
+            if (options.token?.isCancellationRequested || !await this.assembleTarget(target, options)) {
+                return undefined;
+            }
+        }
+
+        const disk = targets[0].disk;
+        if (disk && !this.packDisk(disk, options)) {
+            return undefined;
+        }
+        return targets[0];
+    }
+
+    /**
+     * Write the assembled PRGs and the extra files into the project's disk
+     * image, replacing files of the same name.
+     */
+    private packDisk(disk: DiskTarget, options: BuildOptions): boolean {
+        this.outputChannel.appendLine(`Writing disk image: ${disk.image}`);
+        try {
+            const image = disk.base
+                ? DiskImage.parse(fs.readFileSync(disk.base), diskFormatFromPath(disk.base))
+                : DiskImage.create(diskFormatFromPath(disk.image)!, disk.name, disk.id);
+            if (disk.base && image.format !== diskFormatFromPath(disk.image)) {
+                throw new Error(`${path.basename(disk.base)} is not a ${path.extname(disk.image).substring(1).toUpperCase()} image`);
+            }
+
+            for (const file of disk.files) {
+                const contents = fs.readFileSync(file.path);
+                // Names are stored truncated and upper case, so compare them as stored
+                const storedName = petsciiToString(stringToPetscii(file.name));
+                const existing = image.files.find(f => f.name === storedName);
+                if (existing) {
+                    image.removeFile(existing.entry);
+                }
+                const added = image.addFile(file.name, file.type, contents);
+                this.outputChannel.appendLine(`  ${added.name}.${file.type.toLowerCase()} (${added.blocks} blocks)`);
+            }
+
+            fs.mkdirSync(path.dirname(disk.image), { recursive: true });
+            fs.writeFileSync(disk.image, image.data);
+            this.outputChannel.appendLine(`Disk image written: ${disk.image} (${image.blocksFree} blocks free)`);
+            return true;
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            this.outputChannel.appendLine(`Failed to write disk image: ${msg}`);
+            if (!options.quiet) {
+                vscode.window.showErrorMessage(`Failed to write disk image ${path.basename(disk.image)}: ${msg}`);
+            }
+            return false;
+        }
     }
 
-    async assemble(filePath: string): Promise<boolean> {
+    private async assembleTarget(target: BuildTarget, options: BuildOptions): Promise<boolean> {
         const config = vscode.workspace.getConfiguration('c64');
         const kickassJarPath = config.get<string>('kickassJarPath');
 
@@ -27,48 +162,108 @@ export class KickassemblerService {
             return false;
         }
 
-        const outputDir = path.dirname(filePath);
-        const outputFile = filePath.replace(/\.(asm|kasm)$/, '.prg');
+        const outputFile = target.outputFile;
+        fs.mkdirSync(path.dirname(outputFile), { recursive: true });
 
-        // Clear previous diagnostics
-        this.diagnosticCollection.clear();
+        this.outputChannel.appendLine(`Assembling: ${target.source}`);
 
-        this.outputChannel.clear();
-        this.outputChannel.show(true);
-        this.outputChannel.appendLine(`Assembling: ${filePath}`);
+        const started = Date.now();
+        let result: AssemblyResult | undefined;
 
-        return new Promise((resolve) => {
-            const command = `java -jar "${kickassJarPath}" "${filePath}" -o "${outputFile}"`;
+        if (config.get<boolean>('buildServer.enabled', false)) {
+            try {
+                const hostResult = await this.buildServer.build(kickassJarPath, target.cwd, assemblerArgs(target), options.token);
+                result = { output: hostResult.output, exitCode: hostResult.exitCode, timedOut: false };
+            } catch (error) {
+                if (options.token?.isCancellationRequested) {
+                    this.outputChannel.appendLine('Assembly cancelled');
+                    return false;
+                }
+                if (error instanceof BuildTimeoutError) {
+                    // A slow build would be just as slow in a new process
+                    result = { output: error.output, exitCode: null, timedOut: true };
+                } else {
+                    const msg = error instanceof Error ? error.message : String(error);
+                    this.outputChannel.appendLine(`${msg}. Falling back to a new Java process.`);
+                }
+            }
+        }
 
+        result ??= await this.runJava(kickassJarPath, target, options);
+        if (!result) {
+            this.outputChannel.appendLine('Assembly cancelled');
+            return false;
+        }
+
+        this.outputChannel.appendLine(result.output);
+
+        // Parse output for errors and warnings, replacing those of the previous run
+        this.publishDiagnostics(target, this.parseDiagnostics(target, result.output));
+
+        const duration = Date.now() - started;
+        const elapsed = `${duration} ms`;
+        this.buildEmitter.fire({
+            target,
+            success: !result.timedOut && result.exitCode === 0,
+            output: result.output,
+            duration
+        });
+
+        if (result.timedOut) {
+            if (!options.quiet) {
+                vscode.window.showErrorMessage('Assembly timeout - process exceeded 60 seconds');
+            }
+            this.outputChannel.appendLine(`\nAssembly timeout - process killed after 60 seconds`);
+            return false;
+        }
+        if (result.exitCode !== 0) {
+            if (!options.quiet) {
+                vscode.window.showErrorMessage('Assembly failed. Check Problems panel for errors.');
+            }
+            this.outputChannel.appendLine(`\nAssembly failed with exit code ${result.exitCode} (${elapsed})`);
+            return false;
+        }
+
+        if (!options.quiet) {
+            vscode.window.showInformationMessage(`Assembly successful: ${path.basename(outputFile)}`);
+        }
+        this.outputChannel.appendLine(`\nAssembly successful: ${outputFile} (${elapsed})`);
+        return true;
+    }
+
+    /**
+     * Assemble in a new JVM. Resolves to undefined when cancelled.
+     */
+    private runJava(
+        kickassJarPath: string,
+        target: BuildTarget,
+        options: BuildOptions
+    ): Promise<AssemblyResult | undefined> {
+        const args = kickassArgs(kickassJarPath, target);
+
+        return new Promise((resolve) => {
             const timeout = 60000; // 60 seconds timeout for Java process
-            child_process.exec(command, { cwd: outputDir, timeout }, (error, stdout, stderr) => {
-                const output = stdout + stderr;
-
-                this.outputChannel.appendLine(output);
-
-                // Parse output for errors and warnings
-                this.parseDiagnostics(filePath, output);
-
-                if (error) {
-                    if (error.killed) {
-                        vscode.window.showErrorMessage('Assembly timeout - process exceeded 60 seconds');
-                        this.outputChannel.appendLine(`\nAssembly timeout - process killed after 60 seconds`);
-                    } else {
-                        vscode.window.showErrorMessage('Assembly failed. Check Problems panel for errors.');
-                        this.outputChannel.appendLine(`\nAssembly failed with exit code ${error.code}`);
-                    }
-                    resolve(false);
-                } else {
-                    vscode.window.showInformationMessage(`Assembly successful: ${path.basename(outputFile)}`);
-                    this.outputChannel.appendLine(`\nAssembly successful: ${outputFile}`);
-                    resolve(true);
+            const child = child_process.execFile('java', args, { cwd: target.cwd, timeout }, (error, stdout, stderr) => {
+                cancellation?.dispose();
+
+                if (options.token?.isCancellationRequested) {
+                    resolve(undefined);
+                    return;
                 }
+
+                resolve({
+                    output: stdout + stderr,
+                    exitCode: error ? error.code : 0,
+                    timedOut: error?.killed ?? false
+                });
             });
+
+            const cancellation = options.token?.onCancellationRequested(() => child.kill());
         });
     }
 
-    private parseDiagnostics(filePath: string, output: string) {
-        const diagnostics: vscode.Diagnostic[] = [];
+    private parseDiagnostics(target: BuildTarget, output: string): Map<string, vscode.Diagnostic[]> {
+        const diagnostics: Map<string, vscode.Diagnostic[]> = new Map();
         const lines = output.split('\n');
 
         // Kick Assembler error formats:
@@ -78,88 +273,157 @@ export class KickassemblerService {
 
         // Format 2: at line X, column Y in filename
         // Example: at line 19, column 1 in file.asm
+        // Follows an "Error: message" line. The first entry is where the error
+        // occurred, further entries are the macro/function call chain.
         const format2Regex = /at line (\d+), column (\d+) in (.+)/;
+        const errorLineRegex = /^Error:\s*(.+)$/;
 
         // Format 3: filename:line: message
         // Example: file.asm:10: Error message
         const format3Regex = /^([^:]+):(\d+):\s*(.+)$/;
 
         let lastError: string | undefined;
+        let traceDiagnostic: vscode.Diagnostic | undefined;
 
-        for (const line of lines) {
+        const add = (file: string, diagnostic: vscode.Diagnostic): vscode.Diagnostic => {
+            diagnostic.source = 'kickass';
+            const fileDiagnostics = diagnostics.get(file) ?? [];
+            // The summary (format 1) and the trace (format 2) report the same error
+            const duplicate = fileDiagnostics.find(d =>
+                d.range.start.line === diagnostic.range.start.line && d.message === diagnostic.message
+            );
+            if (duplicate) {
+                return duplicate;
+            }
+            fileDiagnostics.push(diagnostic);
+            diagnostics.set(file, fileDiagnostics);
+            return diagnostic;
+        };
+
+        for (const rawLine of lines) {
+            const line = rawLine.trim();
             let match;
-            let lineNum: number;
-            let col: number = 0;
-            let message: string;
-            let severity: vscode.DiagnosticSeverity = vscode.DiagnosticSeverity.Error;
 
             // Try Format 1: (filename line:col) Error: message
             match = line.match(format1Regex);
             if (match) {
-                const [, , lineStr, colStr, severityStr, msg] = match;
-                lineNum = parseInt(lineStr, 10) - 1;
-                col = parseInt(colStr, 10) - 1;
-                message = msg;
+                const [, file, lineStr, colStr, severityStr, message] = match;
+                const lineNum = parseInt(lineStr, 10) - 1;
+                const col = parseInt(colStr, 10) - 1;
                 lastError = message;
-                severity = severityStr.toLowerCase() === 'warning'
+                traceDiagnostic = undefined;
+                const severity = severityStr.toLowerCase() === 'warning'
                     ? vscode.DiagnosticSeverity.Warning
                     : vscode.DiagnosticSeverity.Error;
 
-                const diagnostic = new vscode.Diagnostic(
+                add(this.resolveSourceFile(file, target), new vscode.Diagnostic(
                     new vscode.Range(lineNum, col, lineNum, Number.MAX_VALUE),
                     message,
                     severity
-                );
-                diagnostic.source = 'kickass';
-                diagnostics.push(diagnostic);
+                ));
+                continue;
+            }
+
+            // Start of a detailed error report, followed by its trace
+            match = line.match(errorLineRegex);
+            if (match) {
+                lastError = match[1];
+                traceDiagnostic = undefined;
                 continue;
             }
 
             // Try Format 2: at line X, column Y in filename
             match = line.match(format2Regex);
             if (match) {
-                const [, lineStr, colStr] = match;
-                lineNum = parseInt(lineStr, 10) - 1;
-                col = parseInt(colStr, 10) - 1;
-                message = lastError || line;
+                const [, lineStr, colStr, file] = match;
+                const lineNum = parseInt(lineStr, 10) - 1;
+                const col = parseInt(colStr, 10) - 1;
+                const resolved = this.resolveSourceFile(file, target);
+                const range = new vscode.Range(lineNum, col, lineNum, Number.MAX_VALUE);
 
-                const diagnostic = new vscode.Diagnostic(
-                    new vscode.Range(lineNum, col, lineNum, Number.MAX_VALUE),
-                    message,
-                    vscode.DiagnosticSeverity.Error
-                );
-                diagnostic.source = 'kickass';
-                diagnostics.push(diagnostic);
+                if (traceDiagnostic) {
+                    // Call chain entry: link it from the original error
+                    traceDiagnostic.relatedInformation = [
+                        ...(traceDiagnostic.relatedInformation ?? []),
+                        new vscode.DiagnosticRelatedInformation(
+                            new vscode.Location(vscode.Uri.file(resolved), range),
+                            `Called from line ${lineStr}, column ${colStr} in ${path.basename(resolved)}`
+                        )
+                    ];
+                } else {
+                    traceDiagnostic = add(resolved, new vscode.Diagnostic(
+                        range,
+                        lastError || line,
+                        vscode.DiagnosticSeverity.Error
+                    ));
+                }
                 continue;
             }
 
+            if (line !== '') {
+                traceDiagnostic = undefined;
+            }
+
             // Try Format 3: filename:line: message
             match = line.match(format3Regex);
             if (match) {
-                const [, , lineStr, msg] = match;
-                lineNum = parseInt(lineStr, 10) - 1;
-                message = msg;
+                const [, file, lineStr, message] = match;
+                const lineNum = parseInt(lineStr, 10) - 1;
 
-                const diagnostic = new vscode.Diagnostic(
+                add(this.resolveSourceFile(file, target), new vscode.Diagnostic(
                     new vscode.Range(lineNum, 0, lineNum, Number.MAX_VALUE),
                     message,
                     vscode.DiagnosticSeverity.Error
-                );
-                diagnostic.source = 'kickass';
-                diagnostics.push(diagnostic);
+                ));
             }
         }
 
-        // Update diagnostics
-        const uri = vscode.Uri.file(filePath);
-        this.diagnosticCollection.set(uri, diagnostics);
+        return diagnostics;
+    }
+
+    /**
+     * Resolve a file name reported by Kick Assembler. Relative names are
+     * looked up in the build directory, next to the source and in the
+     * library directories. Anything that cannot be found (e.g. files inside
+     * KickAss.jar) is reported on the assembled source.
+     */
+    private resolveSourceFile(file: string, target: BuildTarget): string {
+        const name = file.trim();
+        const candidates = path.isAbsolute(name)
+            ? [name]
+            : [target.cwd, path.dirname(target.source), ...target.libDirs].map(dir => path.resolve(dir, name));
+
+        return candidates.find(candidate => fs.existsSync(candidate)) ?? target.source;
+    }
+
+    /**
+     * Replace the diagnostics of a build target. Only files reported by this
+     * target's previous or current run are touched, so other builds keep theirs.
+     */
+    private publishDiagnostics(target: BuildTarget, diagnostics: Map<string, vscode.Diagnostic[]>): void {
+        const previous = this.buildDiagnostics.get(target.source);
+        this.buildDiagnostics.set(target.source, diagnostics);
+
+        const affected = new Set([...(previous?.keys() ?? []), ...diagnostics.keys()]);
+        for (const file of affected) {
+            const merged: vscode.Diagnostic[] = [];
+            for (const perFile of this.buildDiagnostics.values()) {
+                merged.push(...(perFile.get(file) ?? []));
+            }
+            this.diagnosticCollection.set(vscode.Uri.file(file), merged);
+        }
     }
 
     clearDiagnostics(uri: vscode.Uri) {
+        for (const perFile of this.buildDiagnostics.values()) {
+            perFile.delete(uri.fsPath);
+        }
         this.diagnosticCollection.delete(uri);
     }
 
     dispose() {
+        this.buildServer.dispose();
+        this.buildEmitter.dispose();
         this.outputChannel.dispose();
         this.diagnosticCollection.dispose();
     }
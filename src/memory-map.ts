@@ -0,0 +1,364 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BuildResult, KickassemblerService } from './kickassembler';
+import { AssemblySymbol, findSymbolFile, loadSymFile } from './symbols';
+import { DebugInfo, findDebugInfoFile } from './debug/debug-info';
+
+export interface MemoryBlock {
+    segment: string;
+    name: string;
+    start: number;
+    end: number; // inclusive
+    overlaps: boolean;
+}
+
+interface MemoryRegion {
+    name: string;
+    start: number;
+    end: number;
+    kind: 'system' | 'rom' | 'io';
+}
+
+// Areas of the default C64 memory configuration worth seeing next to the program
+const C64_REGIONS: MemoryRegion[] = [
+    { name: 'Zero page', start: 0x0000, end: 0x00ff, kind: 'system' },
+    { name: 'Stack', start: 0x0100, end: 0x01ff, kind: 'system' },
+    { name: 'Screen', start: 0x0400, end: 0x07ff, kind: 'system' },
+    { name: 'BASIC ROM', start: 0xa000, end: 0xbfff, kind: 'rom' },
+    { name: 'I/O', start: 0xd000, end: 0xdfff, kind: 'io' },
+    { name: 'KERNAL ROM', start: 0xe000, end: 0xffff, kind: 'rom' }
+];
+
+/**
+ * Parse the "Memory Map" section Kick Assembler prints with -showmem:
+ *
+ *   Default-segment:
+ *     $0801-$080c Basic
+ *     $0810-$0a3f Unnamed
+ */
+export function parseMemoryMap(output: string): MemoryBlock[] {
+    const blocks: MemoryBlock[] = [];
+    let inMap = false;
+    let segment = 'Default';
+
+    for (const rawLine of output.split('\n')) {
+        const line = rawLine.trim();
+        if (line === 'Memory Map') {
+            inMap = true;
+            continue;
+        }
+        if (!inMap) {
+            continue;
+        }
+
+        const segmentMatch = line.match(/^(.+)-segment:$/);
+        if (segmentMatch) {
+            segment = segmentMatch[1];
+            continue;
+        }
+
+        const blockMatch = line.match(/^\*?\$([0-9a-fA-F]+)-\$([0-9a-fA-F]+)\s*(.*)$/);
+        if (blockMatch) {
+            const [, start, end, name] = blockMatch;
+            blocks.push({
+                segment,
+                name: name.trim() || 'Unnamed',
+                start: parseInt(start, 16),
+                end: parseInt(end, 16),
+                overlaps: false
+            });
+        }
+    }
+
+    // Flag blocks that share bytes with another block
+    const sorted = [...blocks].sort((a, b) => a.start - b.start);
+    for (let i = 0; i < sorted.length; i++) {
+        for (let j = i + 1; j < sorted.length && sorted[j].start <= sorted[i].end; j++) {
+            sorted[i].overlaps = true;
+            sorted[j].overlaps = true;
+        }
+    }
+
+    return blocks;
+}
+
+/** Messages from the memory map page. */
+type MemoryMapMessage =
+    | { command: 'select'; source: string }
+    | { command: 'reveal'; address: number; label?: string };
+
+/**
+ * Webview showing where the segments of the last build landed in the 64K
+ * address space. Follows every build while open.
+ */
+export class MemoryMapPanel implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    // Last build result per target source
+    private results: Map<string, BuildResult> = new Map();
+    private selected: string | undefined;
+    private buildListener: vscode.Disposable;
+
+    constructor(kickassService: KickassemblerService) {
+        this.buildListener = kickassService.onDidBuild(result => {
+            if (!result.success) {
+                return;
+            }
+            this.results.set(result.target.source, result);
+            this.selected ??= result.target.source;
+            this.render();
+        });
+    }
+
+    show(): void {
+        if (this.results.size === 0) {
+            vscode.window.showInformationMessage('No memory map yet. Assemble a program first.');
+            return;
+        }
+
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'c64.memoryMap',
+            'C64 Memory Map',
+            vscode.ViewColumn.Beside,
+            { enableScripts: true }
+        );
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+        this.panel.webview.onDidReceiveMessage(async (raw: unknown) => {
+            const message = parseMessage(raw);
+            if (message?.command === 'select') {
+                this.selected = message.source;
+                this.render();
+            } else if (message?.command === 'reveal') {
+                await this.revealAddress(message.address, message.label);
+            }
+        });
+        this.render();
+    }
+
+    private render(): void {
+        if (!this.panel) {
+            return;
+        }
+        const result = this.results.get(this.selected ?? '') ?? [...this.results.values()][0];
+        if (!result) {
+            return;
+        }
+        this.selected = result.target.source;
+
+        const blocks = parseMemoryMap(result.output);
+        let symbols: AssemblySymbol[] = [];
+        const symPath = findSymbolFile(result.target.outputFile, result.target.source);
+        if (symPath) {
+            try {
+                symbols = loadSymFile(symPath);
+            } catch {
+                // Map without labels
+            }
+        }
+
+        this.panel.title = `Memory Map: ${path.basename(result.target.outputFile)}`;
+        this.panel.webview.html = this.getHtml(result, blocks, symbols);
+    }
+
+    /**
+     * Open the source of a label, or of the code at an address.
+     */
+    private async revealAddress(address: number, label?: string): Promise<void> {
+        const result = this.results.get(this.selected ?? '');
+        if (!result) {
+            return;
+        }
+
+        const dbgPath = findDebugInfoFile(result.target.outputFile, result.target.source);
+        if (!dbgPath) {
+            vscode.window.showErrorMessage('No debug information found for this build (.dbg)');
+            return;
+        }
+
+        try {
+            const debugInfo = DebugInfo.load(dbgPath);
+            // Qualified names from the .sym file end with the plain label name
+            const debugLabel = label ? debugInfo.findLabel(label.split('.').pop() ?? label) : undefined;
+            const location = debugLabel?.file && debugLabel.line
+                ? { file: debugLabel.file, line: debugLabel.line, column: debugLabel.column ?? 1 }
+                : debugInfo.locationForAddress(address);
+
+            if (!location || location.file.includes('.jar:')) {
+                vscode.window.showInformationMessage(`No source location for $${hex(address)}`);
+                return;
+            }
+
+            const position = new vscode.Position(location.line - 1, location.column - 1);
+            await vscode.window.showTextDocument(vscode.Uri.file(location.file), {
+                viewColumn: vscode.ViewColumn.One,
+                selection: new vscode.Range(position, position)
+            });
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Failed to open source: ${msg}`);
+        }
+    }
+
+    private getHtml(result: BuildResult, blocks: MemoryBlock[], symbols: AssemblySymbol[]): string {
+        const nonce = Date.now().toString(36) + Math.random().toString(36).substring(2);
+        const rowBytes = 1024;
+        const rowHeight = 8;
+        const margin = 44;
+        const scale = 0.5; // pixels per byte
+
+        // Rectangles for a range, split at the 1K row boundaries
+        const rects = (start: number, end: number): { x: number; y: number; width: number }[] => {
+            const parts: { x: number; y: number; width: number }[] = [];
+            for (let row = Math.floor(start / rowBytes); row <= Math.floor(end / rowBytes); row++) {
+                const from = Math.max(start, row * rowBytes) - row * rowBytes;
+                const to = Math.min(end, row * rowBytes + rowBytes - 1) - row * rowBytes + 1;
+                parts.push({ x: margin + from * scale, y: row * rowHeight, width: Math.max((to - from) * scale, 1) });
+            }
+            return parts;
+        };
+
+        const svg: string[] = [];
+        for (const region of C64_REGIONS) {
+            for (const r of rects(region.start, region.end)) {
+                svg.push(`<rect class="region ${region.kind}" x="${r.x}" y="${r.y}" width="${r.width}" height="${rowHeight}"><title>${region.name}</title></rect>`);
+            }
+        }
+        for (let row = 0; row < 64; row += 4) {
+            svg.push(`<text x="0" y="${row * rowHeight + rowHeight - 1}">$${hex(row * rowBytes)}</text>`);
+        }
+        blocks.forEach((block, index) => {
+            const title = `${escapeHtml(block.segment)}: ${escapeHtml(block.name)} $${hex(block.start)}-$${hex(block.end)}`;
+            for (const r of rects(block.start, block.end)) {
+                svg.push(`<rect class="block${block.overlaps ? ' overlap' : ''}" data-block="${index}" x="${r.x}" y="${r.y + 1}" width="${r.width}" height="${rowHeight - 2}"><title>${title}</title></rect>`);
+            }
+        });
+
+        const rows = blocks.map((block, index) => {
+            const areas = C64_REGIONS
+                .filter(region => block.start <= region.end && block.end >= region.start)
+                .map(region => region.name)
+                .join(', ');
+            const labels = symbols
+                .filter(symbol => symbol.address >= block.start && symbol.address <= block.end)
+                .map(symbol => `<a href="#" data-address="${symbol.address}" data-label="${escapeHtml(symbol.name)}">${escapeHtml(symbol.name)}</a>`)
+                .join(' ');
+            return `<tr class="${block.overlaps ? 'overlap' : ''}">
+                <td>${escapeHtml(block.segment)}</td>
+                <td><a href="#" data-block="${index}">${escapeHtml(block.name)}</a></td>
+                <td>$${hex(block.start)}-$${hex(block.end)}</td>
+                <td>${block.end - block.start + 1}</td>
+                <td>${areas}${block.overlaps ? ' <strong>overlap</strong>' : ''}</td>
+                <td>${labels}</td>
+            </tr>`;
+        }).join('\n');
+
+        const options = [...this.results.values()].map(r => {
+            const selected = r.target.source === result.target.source ? ' selected' : '';
+            return `<option value="${escapeHtml(r.target.source)}"${selected}>${escapeHtml(path.basename(r.target.outputFile))}</option>`;
+        }).join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        svg { width: 100%; max-width: 900px; }
+        svg text { font-family: var(--vscode-editor-font-family); font-size: 7px; fill: var(--vscode-descriptionForeground); }
+        .region.system { fill: var(--vscode-editorWidget-background); }
+        .region.rom { fill: var(--vscode-diffEditor-insertedTextBackground, rgba(0, 128, 255, 0.2)); }
+        .region.io { fill: var(--vscode-editorWarning-foreground); fill-opacity: 0.3; }
+        .block { fill: var(--vscode-charts-green, #4caf50); cursor: pointer; }
+        .block.overlap { fill: var(--vscode-charts-red, #f44336); }
+        .legend span { margin-right: 1em; }
+        .swatch { display: inline-block; width: 1em; height: 1em; vertical-align: middle; }
+        table { border-collapse: collapse; margin-top: 1em; }
+        td, th { text-align: left; padding: 2px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+        tr.overlap td { color: var(--vscode-errorForeground); }
+        a { color: var(--vscode-textLink-foreground); }
+    </style>
+</head>
+<body>
+    <h2>${escapeHtml(path.basename(result.target.outputFile))}</h2>
+    ${this.results.size > 1 ? `<p><select id="target">${options}</select></p>` : ''}
+    <p class="legend">
+        <span><span class="swatch" style="background: var(--vscode-charts-green, #4caf50)"></span> Program</span>
+        <span><span class="swatch" style="background: var(--vscode-charts-red, #f44336)"></span> Overlap</span>
+        <span><span class="swatch" style="background: var(--vscode-editorWarning-foreground); opacity: 0.3"></span> I/O $D000-$DFFF</span>
+        <span><span class="swatch" style="background: var(--vscode-diffEditor-insertedTextBackground, rgba(0, 128, 255, 0.2))"></span> ROM</span>
+    </p>
+    ${blocks.length === 0 ? '<p>No memory map in the build output.</p>' : ''}
+    <svg viewBox="0 0 ${margin + rowBytes * scale} ${64 * rowHeight}">
+        ${svg.join('\n        ')}
+    </svg>
+    <table>
+        <tr><th>Segment</th><th>Block</th><th>Range</th><th>Bytes</th><th>Area</th><th>Labels</th></tr>
+        ${rows}
+    </table>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const blocks = ${JSON.stringify(blocks.map(b => b.start))};
+        document.addEventListener('click', event => {
+            const element = event.target.closest('[data-block], [data-address]');
+            if (!element) {
+                return;
+            }
+            event.preventDefault();
+            const address = element.dataset.address !== undefined
+                ? Number(element.dataset.address)
+                : blocks[Number(element.dataset.block)];
+            vscode.postMessage({ command: 'reveal', address, label: element.dataset.label });
+        });
+        const select = document.getElementById('target');
+        if (select) {
+            select.addEventListener('change', () => vscode.postMessage({ command: 'select', source: select.value }));
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        this.buildListener.dispose();
+        this.panel?.dispose();
+    }
+}
+
+/**
+ * The message if it carries what its command needs.
+ */
+function parseMessage(message: unknown): MemoryMapMessage | undefined {
+    if (typeof message !== 'object' || message === null) {
+        return undefined;
+    }
+    const m = message as Record<string, unknown>;
+    switch (m.command) {
+        case 'select':
+            return typeof m.source === 'string' ? { command: m.command, source: m.source } : undefined;
+        case 'reveal':
+            return typeof m.address === 'number' && Number.isFinite(m.address)
+                ? { command: m.command, address: m.address, label: typeof m.label === 'string' ? m.label : undefined }
+                : undefined;
+        default:
+            return undefined;
+    }
+}
+
+function hex(value: number): string {
+    return value.toString(16).toUpperCase().padStart(4, '0');
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { CbmFileType } from './disk-image';
+
+export const PROJECT_FILE = 'c64project.json';
+
+export type ProjectEntry = string | { source: string; output?: string };
+
+export type DiskFileEntry = string | { path: string; name?: string; type?: 'prg' | 'seq' | 'usr' };
+
+/**
+ * Disk image written after a successful build: the PRGs of all entries,
+ * then the extra files.
+ */
+export interface DiskConfig {
+    image: string;
+    /** Existing image to start from instead of an empty one. */
+    base?: string;
+    name?: string;
+    id?: string;
+    files?: DiskFileEntry[];
+}
+
+/**
+ * Contents of a c64project.json build file. All paths are relative to the
+ * directory containing the build file.
+ */
+export interface ProjectConfig {
+    entries: ProjectEntry[];
+    outputDir?: string;
+    libDirs?: string[];
+    defines?: Record<string, string | number | boolean>;
+    flags?: string[];
+    disk?: DiskConfig;
+}
+
+export interface DiskTarget {
+    image: string;
+    base?: string;
+    name: string;
+    id: string;
+    files: { path: string; name: string; type: CbmFileType }[];
+}
+
+export interface BuildTarget {
+    source: string;
+    outputFile: string;
+    cwd: string;
+    libDirs: string[];
+    defines: Record<string, string>;
+    flags: string[];
+    /** Disk image of the project, packed after all targets are assembled. */
+    disk?: DiskTarget;
+}
+
+export interface Project {
+    file: string;
+    root: string;
+    config: ProjectConfig;
+    targets: BuildTarget[];
+}
+
+/**
+ * Find the closest c64project.json above a file, stopping at its workspace
+ * folder. Without a file, look in the root of each workspace folder.
+ */
+export function findProjectFile(filePath?: string): string | undefined {
+    if (!filePath) {
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const candidate = path.join(folder.uri.fsPath, PROJECT_FILE);
+            if (fs.existsSync(candidate)) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+    const stopAt = folder ? path.resolve(folder.uri.fsPath) : path.parse(filePath).root;
+
+    let dir = path.dirname(path.resolve(filePath));
+    while (true) {
+        const candidate = path.join(dir, PROJECT_FILE);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+        const parent = path.dirname(dir);
+        if (dir === stopAt || parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+export function loadProject(projectFile: string): Project {
+    let config: ProjectConfig;
+    try {
+        config = JSON.parse(fs.readFileSync(projectFile, 'utf-8'));
+    } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid ${PROJECT_FILE}: ${msg}`);
+    }
+
+    if (!Array.isArray(config.entries) || config.entries.length === 0) {
+        throw new Error(`${PROJECT_FILE} must declare at least one entry in "entries"`);
+    }
+
+    const root = path.dirname(projectFile);
+    const outputDir = path.resolve(root, config.outputDir ?? '.');
+    const libDirs = (config.libDirs ?? []).map(dir => path.resolve(root, dir));
+    const defines: Record<string, string> = {};
+    for (const [name, value] of Object.entries(config.defines ?? {})) {
+        defines[name] = String(value);
+    }
+
+    const outputs = config.entries.map(entry => {
+        const source = path.resolve(root, typeof entry === 'string' ? entry : entry.source);
+        const output = typeof entry === 'string' || !entry.output
+            ? path.basename(source).replace(/\.(asm|kasm)$/, '.prg')
+            : entry.output;
+        return { source, outputFile: path.resolve(outputDir, output) };
+    });
+    const disk = config.disk ? resolveDisk(root, config.disk, outputs.map(o => o.outputFile)) : undefined;
+
+    const targets = outputs.map(({ source, outputFile }) => {
+        return {
+            source,
+            outputFile,
+            cwd: root,
+            libDirs,
+            defines,
+            flags: config.flags ?? [],
+            disk
+        };
+    });
+
+    return { file: projectFile, root, config, targets };
+}
+
+function resolveDisk(root: string, config: DiskConfig, programs: string[]): DiskTarget {
+    if (!config.image || !/\.(d64|d71|d81)$/i.test(config.image)) {
+        throw new Error(`${PROJECT_FILE}: "disk.image" must be a .d64, .d71 or .d81 file`);
+    }
+
+    const files = programs.map(program => ({
+        path: program,
+        name: path.basename(program, path.extname(program)),
+        type: 'PRG' as CbmFileType
+    }));
+    for (const entry of config.files ?? []) {
+        const file = typeof entry === 'string' ? { path: entry } : entry;
+        const extension = path.extname(file.path).toLowerCase().substring(1);
+        const type = file.type ?? (extension === 'seq' || extension === 'usr' ? extension : 'prg');
+        files.push({
+            path: path.resolve(root, file.path),
+            name: file.name ?? path.basename(file.path, path.extname(file.path)),
+            type: type.toUpperCase() as CbmFileType
+        });
+    }
+
+    const image = path.resolve(root, config.image);
+    return {
+        image,
+        base: config.base ? path.resolve(root, config.base) : undefined,
+        name: config.name ?? path.basename(image, path.extname(image)),
+        id: config.id ?? '01',
+        files
+    };
+}
+
+/**
+ * Build target for a file assembled on its own, writing <name>.prg next to it.
+ */
+export function singleFileTarget(filePath: string): BuildTarget {
+    return {
+        source: filePath,
+        outputFile: filePath.replace(/\.(asm|kasm)$/, '.prg'),
+        cwd: path.dirname(filePath),
+        libDirs: [],
+        defines: {},
+        flags: []
+    };
+}
+
+/**
+ * Resolve what to build for the given file: the targets of the enclosing
+ * project if there is one, otherwise the file itself.
+ */
+export function resolveBuildTargets(filePath?: string): BuildTarget[] {
+    const projectFile = findProjectFile(filePath);
+    if (projectFile) {
+        return loadProject(projectFile).targets;
+    }
+    return filePath ? [singleFileTarget(filePath)] : [];
+}
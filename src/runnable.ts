@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SidHeader } from './sid';
+
+/**
+ * How a file is started: PRGs are run, cartridges attached, disk images
+ * mounted and autoloaded, SID and MOD files played.
+ */
+export type RunnableKind = 'prg' | 'crt' | 'disk' | 'sid' | 'mod';
+
+export function runnableKind(filePath: string): RunnableKind | undefined {
+    switch (path.extname(filePath).toLowerCase()) {
+        case '.prg':
+            return 'prg';
+        case '.crt':
+            return 'crt';
+        case '.d64':
+        case '.d71':
+        case '.d81':
+        case '.g64':
+        case '.g71':
+            return 'disk';
+        case '.sid':
+            return 'sid';
+        case '.mod':
+            return 'mod';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Ask which subtune of a SID to play. Resolves to the 1-based song number,
+ * without asking when there is only one.
+ */
+export async function pickSidSong(header: SidHeader): Promise<number | undefined> {
+    if (header.songs <= 1) {
+        return 1;
+    }
+
+    const items = Array.from({ length: header.songs }, (_, i) => ({
+        label: `Song ${i + 1}`,
+        description: i + 1 === header.startSong ? 'default' : undefined,
+        song: i + 1
+    }));
+    // Start song first so Enter plays what the composer intended
+    items.unshift(...items.splice(header.startSong - 1, 1));
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: [header.name, header.author].filter(Boolean).join(' / ') || undefined,
+        placeHolder: `Select subtune (1-${header.songs})`
+    });
+    return picked?.song;
+}
@@ -0,0 +1,46 @@
+/**
+ * Header of a PSID/RSID music file.
+ */
+export interface SidHeader {
+    format: 'PSID' | 'RSID';
+    version: number;
+    name: string;
+    author: string;
+    released: string;
+    /** Number of subtunes. */
+    songs: number;
+    /** Subtune played by default (1-based). */
+    startSong: number;
+}
+
+const HEADER_SIZE = 0x76;
+
+/**
+ * Read the header of a SID file. Throws if the data is not a PSID or RSID file.
+ */
+export function parseSidHeader(data: Buffer): SidHeader {
+    const magic = data.toString('latin1', 0, 4);
+    if ((magic !== 'PSID' && magic !== 'RSID') || data.length < HEADER_SIZE) {
+        throw new Error('Not a PSID or RSID file');
+    }
+
+    const songs = Math.max(1, data.readUInt16BE(0x0e));
+    const startSong = data.readUInt16BE(0x10);
+    return {
+        format: magic,
+        version: data.readUInt16BE(0x04),
+        name: headerString(data, 0x16),
+        author: headerString(data, 0x36),
+        released: headerString(data, 0x56),
+        songs,
+        // 0 and out of range values mean the first song
+        startSong: startSong >= 1 && startSong <= songs ? startSong : 1
+    };
+}
+
+// 32 byte Latin-1 field, zero padded
+function headerString(data: Buffer, offset: number): string {
+    const field = data.subarray(offset, offset + 32);
+    const end = field.indexOf(0);
+    return field.toString('latin1', 0, end === -1 ? field.length : end).trim();
+}
@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { BuildResult, KickassemblerService } from './kickassembler';
+import { AssemblySymbol, findSymbolFile, formatViceSymbols, loadSymFile } from './symbols';
+import { DebugInfo, findDebugInfoFile } from './debug/debug-info';
+
+export interface IndexedSymbol extends AssemblySymbol {
+    /** Source of the label, from the build's debug dump. */
+    location?: vscode.Location;
+    /** PRG the symbol belongs to. */
+    outputFile: string;
+}
+
+/**
+ * Labels of the last successful build of each target, loaded from the
+ * generated symbol file. Offers them as workspace symbols, on hover and
+ * through "Go to Address", and exports them for VICE.
+ */
+export class SymbolIndex implements vscode.WorkspaceSymbolProvider, vscode.HoverProvider, vscode.Disposable {
+    // Symbols per target output file
+    private symbols: Map<string, IndexedSymbol[]> = new Map();
+    private buildListener: vscode.Disposable;
+
+    constructor(kickassService: KickassemblerService) {
+        this.buildListener = kickassService.onDidBuild(result => {
+            if (result.success) {
+                this.load(result);
+            }
+        });
+    }
+
+    private load(result: BuildResult): void {
+        const { outputFile, source } = result.target;
+        const symPath = findSymbolFile(outputFile, source);
+        if (!symPath) {
+            this.symbols.delete(outputFile);
+            return;
+        }
+
+        let debugInfo: DebugInfo | undefined;
+        const dbgPath = findDebugInfoFile(outputFile, source);
+        try {
+            debugInfo = dbgPath ? DebugInfo.load(dbgPath) : undefined;
+        } catch {
+            // Symbols without source locations
+        }
+
+        try {
+            this.symbols.set(outputFile, loadSymFile(symPath).map(symbol => {
+                // The debug dump knows labels by their plain name
+                const label = debugInfo?.findLabel(symbol.name.split('.').pop() ?? symbol.name);
+                const location = label?.file && label.line && !label.file.includes('.jar:')
+                    ? new vscode.Location(
+                        vscode.Uri.file(label.file),
+                        new vscode.Position(label.line - 1, (label.column ?? 1) - 1)
+                    )
+                    : undefined;
+                return { ...symbol, location, outputFile };
+            }));
+        } catch (error) {
+            console.error('Failed to load symbol file:', error);
+        }
+    }
+
+    private all(): IndexedSymbol[] {
+        return [...this.symbols.values()].flat();
+    }
+
+    /**
+     * Symbols with the given name, matching either the qualified or the plain name.
+     */
+    find(name: string): IndexedSymbol[] {
+        return this.all().filter(symbol => symbol.name === name || symbol.name.endsWith(`.${name}`));
+    }
+
+    /**
+     * Closest symbol at or below an address.
+     */
+    nearest(address: number): IndexedSymbol | undefined {
+        let best: IndexedSymbol | undefined;
+        for (const symbol of this.all()) {
+            if (symbol.address <= address && (!best || symbol.address > best.address)) {
+                best = symbol;
+            }
+        }
+        return best;
+    }
+
+    provideWorkspaceSymbols(query: string): vscode.SymbolInformation[] {
+        const lowerQuery = query.toLowerCase();
+        return this.all()
+            .filter(symbol => symbol.location && symbol.name.toLowerCase().includes(lowerQuery))
+            .map(symbol => new vscode.SymbolInformation(
+                `${symbol.name} ($${hex(symbol.address)})`,
+                vscode.SymbolKind.Constant,
+                '',
+                symbol.location!
+            ));
+    }
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const range = document.getWordRangeAtPosition(position, /[\w@]+(\.[\w@]+)*/);
+        if (!range) {
+            return undefined;
+        }
+
+        const matches = this.find(document.getText(range));
+        if (matches.length === 0) {
+            return undefined;
+        }
+
+        const lines = matches.map(symbol => `\`${symbol.name}\` = \`$${hex(symbol.address)}\` (${symbol.address})`);
+        return new vscode.Hover(new vscode.MarkdownString(lines.join('  \n')), range);
+    }
+
+    /**
+     * Ask for an address and jump to the closest label at or below it.
+     */
+    async goToAddress(): Promise<void> {
+        if (this.symbols.size === 0) {
+            vscode.window.showInformationMessage('No symbols loaded yet. Assemble a program first.');
+            return;
+        }
+
+        const input = await vscode.window.showInputBox({
+            prompt: 'Address to go to',
+            placeHolder: '$1000',
+            validateInput: value => parseAddress(value) === undefined ? 'Enter an address like $1000, 0x1000 or 1000' : undefined
+        });
+        const address = input !== undefined ? parseAddress(input) : undefined;
+        if (address === undefined) {
+            return;
+        }
+
+        const symbol = this.nearest(address);
+        if (!symbol) {
+            vscode.window.showInformationMessage(`No label at or below $${hex(address)}`);
+            return;
+        }
+        if (!symbol.location) {
+            vscode.window.showInformationMessage(`${symbol.name} ($${hex(symbol.address)}) has no source location`);
+            return;
+        }
+
+        await vscode.window.showTextDocument(symbol.location.uri, {
+            selection: new vscode.Range(symbol.location.range.start, symbol.location.range.start)
+        });
+        const offset = address - symbol.address;
+        vscode.window.setStatusBarMessage(`$${hex(address)} = ${symbol.name}${offset > 0 ? ` + ${offset}` : ''}`, 5000);
+    }
+
+    /**
+     * Write the symbols of a PRG as a VICE label file next to it, for
+     * `-moncommands`. Returns undefined when there are no symbols.
+     */
+    exportViceLabels(prgPath: string): string | undefined {
+        const symbols = this.symbols.get(prgPath);
+        if (!symbols || symbols.length === 0) {
+            return undefined;
+        }
+
+        const labelFile = prgPath.replace(/\.prg$/i, '') + '.vs';
+        try {
+            fs.writeFileSync(labelFile, formatViceSymbols(symbols));
+            return labelFile;
+        } catch (error) {
+            console.error('Failed to write VICE labels:', error);
+            return undefined;
+        }
+    }
+
+    dispose(): void {
+        this.buildListener.dispose();
+    }
+}
+
+/**
+ * Parse a typed address: $1000, 0x1000 or plain hex.
+ */
+function parseAddress(value: string): number | undefined {
+    const match = value.trim().match(/^(?:\$|0x)?([0-9a-fA-F]{1,4})$/);
+    return match ? parseInt(match[1], 16) : undefined;
+}
+
+function hex(value: number): string {
+    return value.toString(16).toUpperCase().padStart(4, '0');
+}
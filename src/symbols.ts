@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Parsers for Kick Assembler's symbol files: `.sym` (`-symbolfile`) and the
+ * VICE label file `.vs` (`-vicesymbols`). Labels inside `.namespace` blocks
+ * (or labelled scopes) are returned with their qualified name, e.g.
+ * `music.init`.
+ */
+
+export interface AssemblySymbol {
+    name: string;
+    address: number;
+}
+
+export function parseSymFile(content: string): AssemblySymbol[] {
+    const symbols: AssemblySymbol[] = [];
+    const scopes: (string | undefined)[] = [];
+
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.trim();
+
+        // .label name=$1000 or .label name=$1000 { (a labelled scope)
+        const labelMatch = line.match(/^\.label\s+([\w@]+)\s*=\s*\$([0-9a-fA-F]+)\s*(\{)?/);
+        if (labelMatch) {
+            const [, name, hex, opensScope] = labelMatch;
+            symbols.push({ name: qualify(scopes, name), address: parseInt(hex, 16) });
+            if (opensScope) {
+                scopes.push(name);
+            }
+            continue;
+        }
+
+        const namespaceMatch = line.match(/^\.namespace\s+([\w@]+)\s*\{/);
+        if (namespaceMatch) {
+            scopes.push(namespaceMatch[1]);
+            continue;
+        }
+
+        if (line.endsWith('{')) {
+            // Unnamed scope
+            scopes.push(undefined);
+        } else if (line === '}') {
+            scopes.pop();
+        }
+    }
+
+    return symbols;
+}
+
+/**
+ * Parse a VICE label file: `al C:0810 .start`.
+ */
+export function parseViceSymbols(content: string): AssemblySymbol[] {
+    const symbols: AssemblySymbol[] = [];
+    for (const rawLine of content.split('\n')) {
+        const match = rawLine.trim().match(/^al\s+(?:C:)?([0-9a-fA-F]+)\s+\.?(\S+)/);
+        if (match) {
+            symbols.push({ name: match[2], address: parseInt(match[1], 16) });
+        }
+    }
+    return symbols;
+}
+
+/**
+ * Format symbols as a VICE label file, usable with `-moncommands`.
+ */
+export function formatViceSymbols(symbols: AssemblySymbol[]): string {
+    return symbols
+        .map(symbol => `al C:${symbol.address.toString(16).padStart(4, '0')} .${symbol.name}\n`)
+        .join('');
+}
+
+/**
+ * Load a `.sym` or `.vs` file, depending on its extension.
+ */
+export function loadSymFile(symPath: string): AssemblySymbol[] {
+    const content = fs.readFileSync(symPath, 'utf-8');
+    return symPath.toLowerCase().endsWith('.vs') ? parseViceSymbols(content) : parseSymFile(content);
+}
+
+/**
+ * Candidate locations of the symbol file for a build output. Kick Assembler
+ * names it after the source file; look next to the output and the source.
+ * Falls back to a `.vs` file when there is no `.sym`.
+ */
+export function findSymbolFile(prgPath: string, sourcePath: string): string | undefined {
+    const candidates: string[] = [];
+    for (const extension of ['.sym', '.vs']) {
+        const symName = path.basename(sourcePath).replace(/\.(asm|kasm)$/, extension);
+        candidates.push(
+            path.join(path.dirname(prgPath), symName),
+            path.join(path.dirname(sourcePath), symName),
+            prgPath.replace(/\.prg$/i, extension)
+        );
+    }
+    return candidates.find(candidate => fs.existsSync(candidate));
+}
+
+function qualify(scopes: (string | undefined)[], name: string): string {
+    return [...scopes.filter((scope): scope is string => scope !== undefined), name].join('.');
+}
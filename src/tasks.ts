@@ -0,0 +1,175 @@
+import * as vscode from 'vscode';
+import * as child_process from 'child_process';
+import * as path from 'path';
+import * as fs from 'fs';
+import { kickassArgs } from './kickassembler';
+import { BuildTarget, PROJECT_FILE, loadProject, resolveBuildTargets } from './project';
+
+export const TASK_TYPE = 'kickass';
+
+// Named problem matchers contributed in package.json, one per output format
+// understood by KickassemblerService.parseDiagnostics
+export const PROBLEM_MATCHERS = ['$kickass', '$kickass-trace', '$kickass-line'];
+
+export interface KickassTaskDefinition extends vscode.TaskDefinition {
+    /** Source file to assemble. Uses its c64project.json if it belongs to one. */
+    file?: string;
+    /** Path to a c64project.json. */
+    project?: string;
+}
+
+/**
+ * Provides `kickass` tasks so builds can live in tasks.json, be chained with
+ * dependsOn and bound to the default build key.
+ */
+export class KickassTaskProvider implements vscode.TaskProvider {
+    provideTasks(): vscode.Task[] {
+        const tasks: vscode.Task[] = [];
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            if (fs.existsSync(path.join(folder.uri.fsPath, PROJECT_FILE))) {
+                tasks.push(this.createTask({ type: TASK_TYPE, project: PROJECT_FILE }, folder, 'build project'));
+            }
+            tasks.push(this.createTask({ type: TASK_TYPE, file: '${file}' }, folder, 'assemble current file'));
+        }
+
+        return tasks;
+    }
+
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as KickassTaskDefinition;
+        if (definition.type !== TASK_TYPE) {
+            return undefined;
+        }
+        const folder = typeof task.scope === 'object' ? task.scope : undefined;
+        return this.createTask(definition, folder, task.name);
+    }
+
+    private createTask(
+        definition: KickassTaskDefinition,
+        folder: vscode.WorkspaceFolder | undefined,
+        name: string
+    ): vscode.Task {
+        const execution = new vscode.CustomExecution(async (resolved) => {
+            return new KickassBuildTerminal(resolved as KickassTaskDefinition, folder);
+        });
+
+        const task = new vscode.Task(
+            definition,
+            folder ?? vscode.TaskScope.Workspace,
+            name,
+            TASK_TYPE,
+            execution,
+            PROBLEM_MATCHERS
+        );
+        task.group = vscode.TaskGroup.Build;
+        return task;
+    }
+}
+
+/**
+ * Runs Kick Assembler for every target of a task and streams its output
+ * into the task terminal, where the problem matchers pick it up.
+ */
+class KickassBuildTerminal implements vscode.Pseudoterminal {
+    private writeEmitter = new vscode.EventEmitter<string>();
+    readonly onDidWrite: vscode.Event<string> = this.writeEmitter.event;
+    private closeEmitter = new vscode.EventEmitter<number>();
+    readonly onDidClose: vscode.Event<number> = this.closeEmitter.event;
+
+    private process: child_process.ChildProcess | undefined;
+    private cancelled = false;
+
+    constructor(
+        private definition: KickassTaskDefinition,
+        private folder: vscode.WorkspaceFolder | undefined
+    ) {}
+
+    open(): void {
+        this.run().then(
+            (exitCode) => this.closeEmitter.fire(exitCode),
+            (error) => {
+                this.writeLine(error instanceof Error ? error.message : String(error));
+                this.closeEmitter.fire(1);
+            }
+        );
+    }
+
+    close(): void {
+        this.cancelled = true;
+        this.process?.kill();
+    }
+
+    private async run(): Promise<number> {
+        const kickassJarPath = vscode.workspace.getConfiguration('c64').get<string>('kickassJarPath');
+        if (!kickassJarPath || kickassJarPath.trim() === '') {
+            this.writeLine('Kick Assembler JAR path not configured. Please set c64.kickassJarPath in settings.');
+            return 1;
+        }
+        if (!fs.existsSync(kickassJarPath)) {
+            this.writeLine(`Kick Assembler JAR not found at: ${kickassJarPath}`);
+            return 1;
+        }
+
+        const targets = this.resolveTargets();
+        if (targets.length === 0) {
+            this.writeLine(`Nothing to build: set "file" or "project" in the task, or add a ${PROJECT_FILE}`);
+            return 1;
+        }
+
+        for (const target of targets) {
+            if (this.cancelled) {
+                return 1;
+            }
+            fs.mkdirSync(path.dirname(target.outputFile), { recursive: true });
+            this.writeLine(`Assembling: ${target.source}`);
+            const exitCode = await this.assemble(kickassJarPath, target);
+            if (exitCode !== 0) {
+                this.writeLine(`Assembly failed with exit code ${exitCode}`);
+                return exitCode;
+            }
+            this.writeLine(`Assembly successful: ${target.outputFile}`);
+        }
+
+        return 0;
+    }
+
+    private resolveTargets(): BuildTarget[] {
+        const base = this.folder?.uri.fsPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+
+        if (this.definition.project) {
+            return loadProject(path.resolve(base, this.definition.project)).targets;
+        }
+        if (this.definition.file) {
+            return resolveBuildTargets(path.resolve(base, this.definition.file));
+        }
+        return resolveBuildTargets(undefined);
+    }
+
+    private assemble(kickassJarPath: string, target: BuildTarget): Promise<number> {
+        return new Promise((resolve) => {
+            const proc = child_process.spawn('java', kickassArgs(kickassJarPath, target), { cwd: target.cwd });
+            this.process = proc;
+
+            proc.stdout?.on('data', (chunk: Buffer) => this.write(chunk.toString()));
+            proc.stderr?.on('data', (chunk: Buffer) => this.write(chunk.toString()));
+            proc.on('error', (error) => {
+                this.writeLine(`Failed to start Java: ${error.message}`);
+                resolve(1);
+            });
+            proc.on('close', (code) => {
+                this.process = undefined;
+                resolve(code ?? 1);
+            });
+        });
+    }
+
+    private write(text: string): void {
+        // Pseudoterminals need CRLF line endings
+        this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+    }
+
+    private writeLine(text: string): void {
+        this.write(`${text}\n`);
+    }
+}
@@ -0,0 +1,454 @@
+import * as net from 'net';
+import { EventEmitter } from 'events';
+
+/**
+ * Client for the VICE binary monitor protocol (API version 2).
+ *
+ * VICE must be started with `-binarymonitor` (and optionally
+ * `-binarymonitoraddress ip4://host:port`). This module has no dependency on
+ * the vscode API so it can be exercised against a local mock monitor server.
+ */
+
+const STX = 0x02;
+const API_VERSION = 0x02;
+const EVENT_REQUEST_ID = 0xffffffff;
+
+// Command types
+const CMD_MEMORY_GET = 0x01;
+const CMD_MEMORY_SET = 0x02;
+const CMD_CHECKPOINT_SET = 0x12;
+const CMD_CHECKPOINT_DELETE = 0x13;
+const CMD_REGISTERS_GET = 0x31;
+const CMD_REGISTERS_SET = 0x32;
+const CMD_ADVANCE_INSTRUCTIONS = 0x71;
+const CMD_EXECUTE_UNTIL_RETURN = 0x73;
+const CMD_PING = 0x81;
+const CMD_REGISTERS_AVAILABLE = 0x83;
+const CMD_EXIT = 0xaa;
+const CMD_QUIT = 0xbb;
+const CMD_RESET = 0xcc;
+const CMD_AUTOSTART = 0xdd;
+
+// Response / event types
+const RESPONSE_CHECKPOINT_INFO = 0x11;
+const EVENT_JAM = 0x61;
+const EVENT_STOPPED = 0x62;
+const EVENT_RESUMED = 0x63;
+
+// Memory spaces
+export const MEMSPACE_MAIN = 0x00;
+
+// Checkpoint CPU operations
+export const CHECKPOINT_LOAD = 0x01;
+export const CHECKPOINT_STORE = 0x02;
+export const CHECKPOINT_EXEC = 0x04;
+
+export interface MonitorResponse {
+    type: number;
+    errorCode: number;
+    requestId: number;
+    body: Buffer;
+}
+
+export interface CheckpointInfo {
+    number: number;
+    currentlyHit: boolean;
+    start: number;
+    end: number;
+    stopWhenHit: boolean;
+    enabled: boolean;
+    operation: number;
+    temporary: boolean;
+    hitCount: number;
+}
+
+export interface RegisterInfo {
+    id: number;
+    name: string;
+    bits: number;
+}
+
+export class ViceMonitorError extends Error {
+    constructor(message: string, public readonly errorCode?: number) {
+        super(message);
+        this.name = 'ViceMonitorError';
+    }
+}
+
+interface PendingRequest {
+    resolve: (response: MonitorResponse) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Events:
+ * - `stopped` (pc: number) — the emulator entered the monitor
+ * - `resumed` (pc: number) — the emulator continued execution
+ * - `jam` (pc: number) — the CPU hit a JAM instruction
+ * - `checkpoint` (info: CheckpointInfo) — a checkpoint was hit
+ * - `close` () — the connection was closed
+ */
+export class ViceMonitorClient extends EventEmitter {
+    private socket: net.Socket | undefined;
+    private buffer: Buffer = Buffer.alloc(0);
+    private nextRequestId = 1;
+    private pending: Map<number, PendingRequest> = new Map();
+    private registerNames: Map<number, RegisterInfo> | undefined;
+
+    constructor(private requestTimeout: number = 5000) {
+        super();
+    }
+
+    get connected(): boolean {
+        return this.socket !== undefined && !this.socket.destroyed;
+    }
+
+    connect(host: string, port: number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = net.createConnection({ host, port });
+
+            const onError = (error: Error) => {
+                socket.destroy();
+                reject(error);
+            };
+
+            socket.once('error', onError);
+            socket.once('connect', () => {
+                socket.removeListener('error', onError);
+                socket.on('error', (error) => this.handleClose(error));
+                socket.on('close', () => this.handleClose());
+                socket.on('data', (chunk) => this.handleData(chunk));
+                this.socket = socket;
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Connect, retrying until VICE has opened its monitor socket.
+     */
+    async connectWithRetry(host: string, port: number, timeoutMs: number = 10000): Promise<void> {
+        const deadline = Date.now() + timeoutMs;
+        let lastError: Error | undefined;
+
+        while (Date.now() < deadline) {
+            try {
+                await this.connect(host, port);
+                return;
+            } catch (error) {
+                lastError = error instanceof Error ? error : new Error(String(error));
+                await new Promise(resolve => setTimeout(resolve, 250));
+            }
+        }
+
+        throw new ViceMonitorError(
+            `Could not connect to VICE monitor at ${host}:${port}: ${lastError?.message ?? 'timeout'}`
+        );
+    }
+
+    close(): void {
+        this.socket?.destroy();
+        this.socket = undefined;
+    }
+
+    // Commands
+
+    async ping(): Promise<void> {
+        await this.send(CMD_PING, Buffer.alloc(0));
+    }
+
+    async readMemory(start: number, length: number, memspace: number = MEMSPACE_MAIN): Promise<Buffer> {
+        if (length <= 0) {
+            return Buffer.alloc(0);
+        }
+        const end = Math.min(start + length - 1, 0xffff);
+        const body = Buffer.alloc(8);
+        body.writeUInt8(0, 0); // no side effects
+        body.writeUInt16LE(start, 1);
+        body.writeUInt16LE(end, 3);
+        body.writeUInt8(memspace, 5);
+        body.writeUInt16LE(0, 6); // bank id
+        const response = await this.send(CMD_MEMORY_GET, body);
+        const count = response.body.readUInt16LE(0);
+        return response.body.subarray(2, 2 + count);
+    }
+
+    async writeMemory(start: number, data: Buffer, memspace: number = MEMSPACE_MAIN): Promise<void> {
+        if (data.length === 0) {
+            return;
+        }
+        const header = Buffer.alloc(8);
+        header.writeUInt8(0, 0);
+        header.writeUInt16LE(start, 1);
+        header.writeUInt16LE(Math.min(start + data.length - 1, 0xffff), 3);
+        header.writeUInt8(memspace, 5);
+        header.writeUInt16LE(0, 6);
+        await this.send(CMD_MEMORY_SET, Buffer.concat([header, data]));
+    }
+
+    async setCheckpoint(
+        start: number,
+        end: number = start,
+        operation: number = CHECKPOINT_EXEC,
+        temporary: boolean = false
+    ): Promise<CheckpointInfo> {
+        const body = Buffer.alloc(9);
+        body.writeUInt16LE(start, 0);
+        body.writeUInt16LE(end, 2);
+        body.writeUInt8(1, 4); // stop when hit
+        body.writeUInt8(1, 5); // enabled
+        body.writeUInt8(operation, 6);
+        body.writeUInt8(temporary ? 1 : 0, 7);
+        body.writeUInt8(MEMSPACE_MAIN, 8);
+        const response = await this.send(CMD_CHECKPOINT_SET, body);
+        return parseCheckpointInfo(response.body);
+    }
+
+    async deleteCheckpoint(checkpointNumber: number): Promise<void> {
+        const body = Buffer.alloc(4);
+        body.writeUInt32LE(checkpointNumber, 0);
+        await this.send(CMD_CHECKPOINT_DELETE, body);
+    }
+
+    async getRegisters(memspace: number = MEMSPACE_MAIN): Promise<Map<string, number>> {
+        const names = await this.getRegisterNames(memspace);
+        const response = await this.send(CMD_REGISTERS_GET, Buffer.from([memspace]));
+        return parseRegisterValues(response.body, names);
+    }
+
+    async setRegister(name: string, value: number, memspace: number = MEMSPACE_MAIN): Promise<void> {
+        const names = await this.getRegisterNames(memspace);
+        const register = Array.from(names.values()).find(r => r.name.toUpperCase() === name.toUpperCase());
+        if (!register) {
+            throw new ViceMonitorError(`Unknown register: ${name}`);
+        }
+        const body = Buffer.alloc(5);
+        body.writeUInt8(memspace, 0);
+        body.writeUInt16LE(1, 1); // item count
+        body.writeUInt8(3, 3); // item size
+        body.writeUInt8(register.id, 4);
+        const item = Buffer.alloc(2);
+        item.writeUInt16LE(value & 0xffff, 0);
+        await this.send(CMD_REGISTERS_SET, Buffer.concat([body, item]));
+    }
+
+    async advanceInstructions(count: number = 1, stepOverSubroutines: boolean = false): Promise<void> {
+        const body = Buffer.alloc(3);
+        body.writeUInt8(stepOverSubroutines ? 1 : 0, 0);
+        body.writeUInt16LE(count, 1);
+        await this.send(CMD_ADVANCE_INSTRUCTIONS, body);
+    }
+
+    async executeUntilReturn(): Promise<void> {
+        await this.send(CMD_EXECUTE_UNTIL_RETURN, Buffer.alloc(0));
+    }
+
+    /**
+     * Leave the monitor and resume emulation.
+     */
+    async exit(): Promise<void> {
+        await this.send(CMD_EXIT, Buffer.alloc(0));
+    }
+
+    /**
+     * Quit VICE.
+     */
+    async quit(): Promise<void> {
+        await this.send(CMD_QUIT, Buffer.alloc(0));
+    }
+
+    /**
+     * Reset the machine. Type 0 = soft reset, 1 = hard reset.
+     */
+    async reset(hard: boolean = false): Promise<void> {
+        await this.send(CMD_RESET, Buffer.from([hard ? 1 : 0]));
+    }
+
+    /**
+     * Autostart a PRG, disk or tape image, optionally running it.
+     */
+    async autostart(filePath: string, run: boolean = true, fileIndex: number = 0): Promise<void> {
+        const name = Buffer.from(filePath, 'utf-8');
+        if (name.length > 255) {
+            throw new ViceMonitorError(`Path too long for autostart: ${filePath}`);
+        }
+        const body = Buffer.alloc(4);
+        body.writeUInt8(run ? 1 : 0, 0);
+        body.writeUInt16LE(fileIndex, 1);
+        body.writeUInt8(name.length, 3);
+        await this.send(CMD_AUTOSTART, Buffer.concat([body, name]));
+    }
+
+    // Protocol
+
+    private async getRegisterNames(memspace: number): Promise<Map<number, RegisterInfo>> {
+        if (!this.registerNames) {
+            const response = await this.send(CMD_REGISTERS_AVAILABLE, Buffer.from([memspace]));
+            this.registerNames = parseRegistersAvailable(response.body);
+        }
+        return this.registerNames;
+    }
+
+    send(command: number, body: Buffer): Promise<MonitorResponse> {
+        const socket = this.socket;
+        if (!socket || socket.destroyed) {
+            return Promise.reject(new ViceMonitorError('Not connected to VICE monitor'));
+        }
+
+        const requestId = this.nextRequestId++;
+        if (this.nextRequestId >= EVENT_REQUEST_ID) {
+            this.nextRequestId = 1;
+        }
+
+        const header = Buffer.alloc(11);
+        header.writeUInt8(STX, 0);
+        header.writeUInt8(API_VERSION, 1);
+        header.writeUInt32LE(body.length, 2);
+        header.writeUInt32LE(requestId, 6);
+        header.writeUInt8(command, 10);
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.pending.delete(requestId);
+                reject(new ViceMonitorError(`VICE monitor did not answer command 0x${command.toString(16)}`));
+            }, this.requestTimeout);
+
+            this.pending.set(requestId, { resolve, reject, timer });
+            socket.write(Buffer.concat([header, body]));
+        });
+    }
+
+    private handleData(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        // Response header: STX, API version, body length (4), type, error code, request id (4)
+        while (this.buffer.length >= 12) {
+            if (this.buffer.readUInt8(0) !== STX) {
+                // Out of sync - drop everything up to the next STX
+                const next = this.buffer.indexOf(STX, 1);
+                this.buffer = next === -1 ? Buffer.alloc(0) : this.buffer.subarray(next);
+                continue;
+            }
+
+            const bodyLength = this.buffer.readUInt32LE(2);
+            if (this.buffer.length < 12 + bodyLength) {
+                return;
+            }
+
+            const response: MonitorResponse = {
+                type: this.buffer.readUInt8(6),
+                errorCode: this.buffer.readUInt8(7),
+                requestId: this.buffer.readUInt32LE(8),
+                body: Buffer.from(this.buffer.subarray(12, 12 + bodyLength))
+            };
+            this.buffer = this.buffer.subarray(12 + bodyLength);
+            this.dispatch(response);
+        }
+    }
+
+    private dispatch(response: MonitorResponse): void {
+        if (response.requestId === EVENT_REQUEST_ID) {
+            this.dispatchEvent(response);
+            return;
+        }
+
+        const request = this.pending.get(response.requestId);
+        if (!request) {
+            // Checkpoint hits can also be reported with the id of the command that caused them
+            this.dispatchEvent(response);
+            return;
+        }
+
+        this.pending.delete(response.requestId);
+        clearTimeout(request.timer);
+
+        if (response.errorCode !== 0) {
+            request.reject(new ViceMonitorError(
+                `VICE monitor error 0x${response.errorCode.toString(16)}`,
+                response.errorCode
+            ));
+        } else {
+            request.resolve(response);
+        }
+    }
+
+    private dispatchEvent(response: MonitorResponse): void {
+        switch (response.type) {
+            case EVENT_STOPPED:
+                this.emit('stopped', response.body.readUInt16LE(0));
+                break;
+            case EVENT_RESUMED:
+                this.emit('resumed', response.body.readUInt16LE(0));
+                break;
+            case EVENT_JAM:
+                this.emit('jam', response.body.readUInt16LE(0));
+                break;
+            case RESPONSE_CHECKPOINT_INFO:
+                this.emit('checkpoint', parseCheckpointInfo(response.body));
+                break;
+        }
+    }
+
+    private handleClose(error?: Error): void {
+        for (const request of this.pending.values()) {
+            clearTimeout(request.timer);
+            request.reject(error ?? new ViceMonitorError('VICE monitor connection closed'));
+        }
+        this.pending.clear();
+
+        if (this.socket) {
+            this.socket = undefined;
+            this.emit('close');
+        }
+    }
+}
+
+function parseCheckpointInfo(body: Buffer): CheckpointInfo {
+    return {
+        number: body.readUInt32LE(0),
+        currentlyHit: body.readUInt8(4) !== 0,
+        start: body.readUInt16LE(5),
+        end: body.readUInt16LE(7),
+        stopWhenHit: body.readUInt8(9) !== 0,
+        enabled: body.readUInt8(10) !== 0,
+        operation: body.readUInt8(11),
+        temporary: body.readUInt8(12) !== 0,
+        hitCount: body.length >= 17 ? body.readUInt32LE(13) : 0
+    };
+}
+
+function parseRegistersAvailable(body: Buffer): Map<number, RegisterInfo> {
+    const registers = new Map<number, RegisterInfo>();
+    const count = body.readUInt16LE(0);
+    let offset = 2;
+
+    for (let i = 0; i < count; i++) {
+        const itemSize = body.readUInt8(offset);
+        const id = body.readUInt8(offset + 1);
+        const bits = body.readUInt8(offset + 2);
+        const nameLength = body.readUInt8(offset + 3);
+        const name = body.subarray(offset + 4, offset + 4 + nameLength).toString('ascii');
+        registers.set(id, { id, name, bits });
+        offset += itemSize + 1;
+    }
+
+    return registers;
+}
+
+function parseRegisterValues(body: Buffer, names: Map<number, RegisterInfo>): Map<string, number> {
+    const values = new Map<string, number>();
+    const count = body.readUInt16LE(0);
+    let offset = 2;
+
+    for (let i = 0; i < count; i++) {
+        const itemSize = body.readUInt8(offset);
+        const id = body.readUInt8(offset + 1);
+        const value = body.readUInt16LE(offset + 2);
+        const name = names.get(id)?.name ?? `R${id}`;
+        values.set(name, value);
+        offset += itemSize + 1;
+    }
+
+    return values;
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * Named VICE launch configuration from the c64.viceProfiles setting.
+ */
+export interface ViceProfile {
+    name: string;
+    /** Emulator binary, e.g. x64sc, xscpu64 or x128. Defaults to c64.viceBinary. */
+    binary?: string;
+    model?: 'pal' | 'ntsc';
+    warp?: boolean;
+    trueDriveEmulation?: boolean;
+    /** Disk image attached to drive 8. */
+    disk?: string;
+    /** Cartridge image (.crt). */
+    cartridge?: string;
+    /** Control port the joystick device is connected to. */
+    joystickPort?: 1 | 2;
+    /** VICE joystick device number (0 none, 1 numpad, 2 keyset A, 3 keyset B, 4+ host joysticks). */
+    joystickDevice?: number;
+    args?: string[];
+}
+
+// Used when no profiles are configured
+const DEFAULT_PROFILE: ViceProfile = { name: 'Default' };
+
+const LAST_PROFILE_KEY = 'c64.lastViceProfile';
+
+/**
+ * Command line arguments for a profile, before the program to autostart.
+ * Relative image paths are resolved against the workspace folder.
+ */
+export function viceProfileArgs(profile: ViceProfile): string[] {
+    const args: string[] = [];
+
+    if (profile.model) {
+        args.push(`-${profile.model}`);
+    }
+    if (profile.warp) {
+        args.push('-warp');
+    }
+    if (profile.trueDriveEmulation !== undefined) {
+        args.push(profile.trueDriveEmulation ? '-drive8truedrive' : '+drive8truedrive');
+    }
+    if (profile.disk) {
+        args.push('-8', resolveWorkspacePath(profile.disk));
+    }
+    if (profile.cartridge) {
+        args.push('-cartcrt', resolveWorkspacePath(profile.cartridge));
+    }
+    if (profile.joystickPort) {
+        args.push(`-joydev${profile.joystickPort}`, String(profile.joystickDevice ?? 1));
+    }
+    args.push(...(profile.args ?? []));
+
+    return args;
+}
+
+/**
+ * Configured profiles and the last one used in this workspace.
+ */
+export class ViceProfiles {
+    constructor(private state: vscode.Memento) {}
+
+    all(): ViceProfile[] {
+        return vscode.workspace.getConfiguration('c64').get<ViceProfile[]>('viceProfiles', [])
+            .filter(profile => profile && typeof profile.name === 'string');
+    }
+
+    /**
+     * Last used profile, the first configured one, or the default.
+     */
+    current(): ViceProfile {
+        const profiles = this.all();
+        const lastName = this.state.get<string>(LAST_PROFILE_KEY);
+        return profiles.find(profile => profile.name === lastName) ?? profiles[0] ?? DEFAULT_PROFILE;
+    }
+
+    /**
+     * Let the user choose a profile, offering the last used one first.
+     * Returns the default profile without asking when none are configured
+     * and undefined when the pick was cancelled.
+     */
+    async pick(): Promise<ViceProfile | undefined> {
+        const profiles = this.all();
+        if (profiles.length === 0) {
+            return DEFAULT_PROFILE;
+        }
+
+        const current = this.current();
+        const ordered = [current, ...profiles.filter(profile => profile !== current)];
+        const selected = await vscode.window.showQuickPick(
+            ordered.map(profile => ({
+                label: profile.name,
+                description: profile === current ? 'last used' : undefined,
+                detail: [profile.binary, ...viceProfileArgs(profile)].filter(Boolean).join(' '),
+                profile
+            })),
+            { placeHolder: 'Select VICE launch profile' }
+        );
+
+        if (selected) {
+            await this.state.update(LAST_PROFILE_KEY, selected.profile.name);
+        }
+        return selected?.profile;
+    }
+}
+
+function resolveWorkspacePath(file: string): string {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    return folder ? path.resolve(folder.uri.fsPath, file) : file;
+}
@@ -2,39 +2,313 @@ import * as vscode from 'vscode';
 import * as child_process from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { ViceMonitorClient } from './vice-monitor';
+import { SymbolIndex } from './symbol-index';
+import { ViceProfile, ViceProfiles, viceProfileArgs } from './vice-profiles';
+import { runnableKind, pickSidSong } from './runnable';
+import { parseSidHeader } from './sid';
 
-export class ViceService {
-    async run(prgPath: string): Promise<void> {
-        const config = vscode.workspace.getConfiguration('c64');
-        const viceBinary = config.get<string>('viceBinary') || 'x64';
+/**
+ * Launches VICE and keeps track of the instance, so later runs load the new
+ * program into it through the binary monitor instead of opening another window.
+ */
+export class ViceService implements vscode.Disposable {
+    private process: child_process.ChildProcess | undefined;
+    // Profile and program of the running (or last) instance, for reuse and restart
+    private runningProfile: ViceProfile | undefined;
+    private lastRun: { programArgs: string[]; prgPath?: string } | undefined;
+    private statusBarItem: vscode.StatusBarItem;
+    // VSID instance playing a SID, replaced by the next one
+    private sidPlayer: child_process.ChildProcess | undefined;
+
+    constructor(private symbolIndex?: SymbolIndex, private profiles?: ViceProfiles) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 49);
+    }
+
+    get running(): boolean {
+        return this.process !== undefined;
+    }
 
-        if (!fs.existsSync(prgPath)) {
-            vscode.window.showErrorMessage(`PRG file not found: ${prgPath}. Assemble first.`);
+    /**
+     * Run a PRG in VICE, using the given launch profile or the last used one.
+     * A running instance started with the same profile is reset and reused.
+     * With a disk image, the image is autostarted instead of the PRG.
+     */
+    async run(
+        prgPath: string,
+        profile: ViceProfile | undefined = this.profiles?.current(),
+        diskImage?: string
+    ): Promise<void> {
+        const programPath = diskImage ?? prgPath;
+        if (!fs.existsSync(programPath)) {
+            vscode.window.showErrorMessage(`${diskImage ? 'Disk image' : 'PRG file'} not found: ${programPath}. Assemble first.`);
             return;
         }
 
-        // Use VICE autostart mode to load and run the PRG
-        const command = `"${viceBinary}" -autostartprgmode 1 "${prgPath}"`;
+        this.lastRun = { programArgs: [programPath], prgPath };
 
-        const process = child_process.exec(command, (error, _stdout, stderr) => {
-            if (error) {
-                // Check for common error cases
-                if (error.message.includes('ENOENT') || error.message.includes('not found')) {
-                    vscode.window.showErrorMessage(
-                        `VICE emulator not found: ${viceBinary}. Please install VICE or configure c64.viceBinary in settings.`
-                    );
-                } else {
-                    vscode.window.showErrorMessage(`Failed to start VICE: ${error.message}`);
+        if (this.process) {
+            if (this.runningProfile?.name === profile?.name) {
+                try {
+                    await this.load(programPath, true);
+                    return;
+                } catch (error) {
+                    const msg = error instanceof Error ? error.message : String(error);
+                    console.error(`Failed to reuse VICE, restarting: ${msg}`);
                 }
             }
-            if (stderr && stderr.trim()) {
-                console.error('VICE stderr:', stderr);
+            await this.stop();
+        }
+
+        this.launch([programPath], profile, prgPath);
+    }
+
+    /**
+     * Run any supported file: PRGs and disk images are autostarted,
+     * cartridges attached and SIDs played in VSID.
+     */
+    async runFile(filePath: string, profile: ViceProfile | undefined = this.profiles?.current()): Promise<void> {
+        switch (runnableKind(filePath)) {
+            case 'prg':
+            case 'disk':
+                await this.run(filePath, profile);
+                break;
+            case 'crt':
+                await this.runCartridge(filePath, profile);
+                break;
+            case 'sid':
+                await this.playSid(filePath);
+                break;
+            case 'mod':
+                vscode.window.showErrorMessage('MOD files can only be played on the C64 Ultimate');
+                break;
+            default:
+                vscode.window.showErrorMessage(`Cannot run ${path.basename(filePath)} in VICE`);
+                break;
+        }
+    }
+
+    /**
+     * Start VICE with a cartridge attached. The monitor cannot swap
+     * cartridges, so a running instance is restarted.
+     */
+    async runCartridge(crtPath: string, profile: ViceProfile | undefined = this.profiles?.current()): Promise<void> {
+        if (!fs.existsSync(crtPath)) {
+            vscode.window.showErrorMessage(`Cartridge not found: ${crtPath}`);
+            return;
+        }
+
+        await this.stop();
+        this.lastRun = { programArgs: ['-cartcrt', crtPath] };
+        this.launch(this.lastRun.programArgs, profile);
+    }
+
+    /**
+     * Play a SID in VSID, asking for the subtune when it has several.
+     */
+    async playSid(sidPath: string): Promise<void> {
+        let song: number | undefined;
+        try {
+            song = await pickSidSong(parseSidHeader(await fs.promises.readFile(sidPath)));
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Cannot play ${path.basename(sidPath)}: ${msg}`);
+            return;
+        }
+        if (song === undefined) {
+            return;
+        }
+
+        this.sidPlayer?.kill();
+        const vsidBinary = vscode.workspace.getConfiguration('c64').get<string>('vsidBinary') || 'vsid';
+        const proc = child_process.spawn(vsidBinary, ['-tune', String(song), sidPath], { stdio: 'ignore' });
+        this.sidPlayer = proc;
+
+        proc.on('error', (error) => {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                vscode.window.showErrorMessage(
+                    `VSID not found: ${vsidBinary}. Please install VICE or configure c64.vsidBinary in settings.`
+                );
+            } else {
+                vscode.window.showErrorMessage(`Failed to start VSID: ${error.message}`);
+            }
+        });
+        proc.on('exit', () => {
+            if (this.sidPlayer === proc) {
+                this.sidPlayer = undefined;
+            }
+        });
+    }
+
+    private launch(programArgs: string[], profile: ViceProfile | undefined, prgPath?: string): void {
+        const config = vscode.workspace.getConfiguration('c64');
+        const viceBinary = profile?.binary || config.get<string>('viceBinary') || 'x64';
+
+        // Use VICE autostart mode to load and run the program. The binary monitor
+        // lets later runs push new builds into this instance.
+        const monitorPort = config.get<number>('viceMonitorPort', 6502);
+        const args = [
+            '-binarymonitor',
+            '-binarymonitoraddress', `ip4://127.0.0.1:${monitorPort}`,
+            '-autostartprgmode', '1',
+            ...(profile ? viceProfileArgs(profile) : [])
+        ];
+
+        // Labels of the last build, available in the VICE monitor
+        const labelFile = prgPath ? this.symbolIndex?.exportViceLabels(prgPath) : undefined;
+        if (labelFile) {
+            args.push('-moncommands', labelFile);
+        }
+        args.push(...programArgs);
+
+        const proc = child_process.spawn(viceBinary, args, { stdio: ['ignore', 'ignore', 'pipe'] });
+        this.process = proc;
+        this.runningProfile = profile;
+
+        // Keep the tail of stderr to explain a crash
+        let stderr = '';
+        proc.stderr?.on('data', (chunk: Buffer) => {
+            stderr = (stderr + chunk.toString()).slice(-2000);
+        });
+
+        proc.on('error', (error) => {
+            this.onExit(proc);
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                vscode.window.showErrorMessage(
+                    `VICE emulator not found: ${viceBinary}. Please install VICE or configure c64.viceBinary in settings.`
+                );
+            } else {
+                vscode.window.showErrorMessage(`Failed to start VICE: ${error.message}`);
+            }
+        });
+
+        proc.on('exit', (code, signal) => {
+            if (this.process !== proc) {
+                return;
+            }
+            this.onExit(proc);
+            // Closing the window exits with 0; anything else is a crash
+            if (code !== 0 && signal === null) {
+                if (stderr.trim()) {
+                    console.error('VICE stderr:', stderr);
+                }
+                this.updateStatus('crashed', `exit code ${code}`);
             }
         });
 
-        // Check if process started successfully
-        if (process.pid) {
-            vscode.window.showInformationMessage(`Started VICE with ${path.basename(prgPath)}`);
+        if (proc.pid) {
+            this.updateStatus('running');
+            vscode.window.showInformationMessage(`Started VICE with ${path.basename(programArgs[programArgs.length - 1])}`);
+        }
+    }
+
+    private onExit(proc: child_process.ChildProcess): void {
+        if (this.process === proc) {
+            this.process = undefined;
+            this.updateStatus('stopped');
         }
     }
+
+    /**
+     * Reset the emulator and autostart a PRG or disk image through the binary monitor.
+     */
+    private async load(programPath: string, waitForMonitor: boolean): Promise<void> {
+        const config = vscode.workspace.getConfiguration('c64');
+        const monitorPort = config.get<number>('viceMonitorPort', 6502);
+        const monitor = new ViceMonitorClient();
+
+        if (waitForMonitor) {
+            // A freshly started instance may not be listening yet
+            await monitor.connectWithRetry('127.0.0.1', monitorPort, 5000);
+        } else {
+            await monitor.connect('127.0.0.1', monitorPort);
+        }
+
+        try {
+            await monitor.reset(false);
+            await monitor.autostart(programPath, true);
+            await monitor.exit();
+        } finally {
+            monitor.close();
+        }
+    }
+
+    /**
+     * Load and run a PRG (or the disk image built with it) in an already
+     * running VICE instance through its binary monitor. Returns false if no
+     * instance is listening.
+     */
+    async reload(prgPath: string, diskImage?: string): Promise<boolean> {
+        const programPath = diskImage ?? prgPath;
+        try {
+            await this.load(programPath, this.running);
+            this.lastRun = { programArgs: [programPath], prgPath };
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Stop the VICE instance started by the extension and wait for it to exit.
+     */
+    async stop(): Promise<void> {
+        const proc = this.process;
+        if (!proc) {
+            return;
+        }
+        // Forget it first so its exit isn't reported as a crash
+        this.onExit(proc);
+
+        await new Promise<void>((resolve) => {
+            const timer = setTimeout(() => {
+                proc.kill('SIGKILL');
+                resolve();
+            }, 5000);
+            proc.once('exit', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+            proc.kill();
+        });
+    }
+
+    /**
+     * Start VICE again with the last program and profile.
+     */
+    async restart(): Promise<void> {
+        if (!this.lastRun) {
+            vscode.window.showInformationMessage('VICE has not been started yet');
+            return;
+        }
+        await this.stop();
+        this.launch(this.lastRun.programArgs, this.runningProfile, this.lastRun.prgPath);
+    }
+
+    private updateStatus(state: 'running' | 'stopped' | 'crashed', detail?: string): void {
+        switch (state) {
+            case 'running':
+                this.statusBarItem.text = '$(vm-running) VICE';
+                this.statusBarItem.tooltip = `VICE is running${this.runningProfile ? ` (${this.runningProfile.name})` : ''}. Click to stop.`;
+                this.statusBarItem.command = 'c64.stopVice';
+                this.statusBarItem.backgroundColor = undefined;
+                this.statusBarItem.show();
+                break;
+            case 'stopped':
+                this.statusBarItem.hide();
+                break;
+            case 'crashed':
+                this.statusBarItem.text = '$(vm-outline) VICE exited';
+                this.statusBarItem.tooltip = `VICE exited unexpectedly (${detail}). Click to restart.`;
+                this.statusBarItem.command = 'c64.restartVice';
+                this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+                this.statusBarItem.show();
+                break;
+        }
+    }
+
+    dispose(): void {
+        // The emulator window is left open when VS Code closes
+        this.statusBarItem.dispose();
+    }
 }
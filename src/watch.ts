@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { KickassemblerService } from './kickassembler';
+import { ViceService } from './vice';
+import { C64UService } from './c64u/service';
+import { findProjectFile } from './project';
+
+type ReloadTarget = 'none' | 'vice' | 'c64u';
+
+/**
+ * Watch mode: reassemble on save of any Kick Assembler source and optionally
+ * push the new PRG into VICE or onto the C64 Ultimate.
+ */
+export class WatchModeController implements vscode.Disposable {
+    private statusBarItem: vscode.StatusBarItem;
+    private saveListener: vscode.Disposable | undefined;
+    private editorListener: vscode.Disposable;
+    private debounceTimer: NodeJS.Timeout | undefined;
+    private buildCancellation: vscode.CancellationTokenSource | undefined;
+    // File that was active when watch mode started; built when a saved file
+    // is not part of a c64project.json
+    private rootFile: string | undefined;
+
+    constructor(
+        private kickassService: KickassemblerService,
+        private viceService: ViceService,
+        private c64uService: C64UService
+    ) {
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+        this.statusBarItem.command = 'c64.toggleWatch';
+        this.updateStatus('off');
+
+        // Only take status bar space while watching or editing assembler sources
+        this.editorListener = vscode.window.onDidChangeActiveTextEditor(() => this.updateVisibility());
+        this.updateVisibility();
+    }
+
+    get active(): boolean {
+        return this.saveListener !== undefined;
+    }
+
+    toggle(activeFile?: string): void {
+        if (this.active) {
+            this.stop();
+        } else {
+            this.start(activeFile);
+        }
+    }
+
+    start(activeFile?: string): void {
+        if (this.active) {
+            return;
+        }
+
+        this.rootFile = activeFile;
+        this.saveListener = vscode.workspace.onDidSaveTextDocument(document => {
+            if (/\.(asm|kasm)$/.test(document.fileName) && document.uri.scheme === 'file') {
+                this.scheduleBuild(document.uri.fsPath);
+            }
+        });
+        this.updateStatus('idle');
+        this.updateVisibility();
+    }
+
+    stop(): void {
+        this.saveListener?.dispose();
+        this.saveListener = undefined;
+        clearTimeout(this.debounceTimer);
+        this.buildCancellation?.cancel();
+        this.updateStatus('off');
+        this.updateVisibility();
+    }
+
+    private updateVisibility(): void {
+        const fileName = vscode.window.activeTextEditor?.document.fileName ?? '';
+        if (this.active || /\.(asm|kasm)$/.test(fileName)) {
+            this.statusBarItem.show();
+        } else {
+            this.statusBarItem.hide();
+        }
+    }
+
+    private scheduleBuild(savedFile: string): void {
+        const debounceMs = vscode.workspace.getConfiguration('c64').get<number>('watch.debounceMs', 300);
+
+        clearTimeout(this.debounceTimer);
+        this.debounceTimer = setTimeout(() => {
+            const inProject = findProjectFile(savedFile) !== undefined;
+            this.rebuild(inProject ? savedFile : this.rootFile ?? savedFile);
+        }, debounceMs);
+    }
+
+    private async rebuild(file: string): Promise<void> {
+        // A newer save supersedes a build that is still running
+        this.buildCancellation?.cancel();
+        const cancellation = new vscode.CancellationTokenSource();
+        this.buildCancellation = cancellation;
+
+        this.updateStatus('building');
+        const started = Date.now();
+        const target = await this.kickassService.build(file, { token: cancellation.token, quiet: true });
+
+        if (cancellation.token.isCancellationRequested) {
+            cancellation.dispose();
+            return;
+        }
+        this.buildCancellation = undefined;
+        cancellation.dispose();
+
+        if (!target) {
+            this.updateStatus('failed');
+            return;
+        }
+
+        this.updateStatus('success', `${path.basename(target.outputFile)} in ${Date.now() - started} ms`);
+
+        const reloadTarget = vscode.workspace.getConfiguration('c64').get<ReloadTarget>('watch.reloadTarget', 'none');
+        try {
+            if (reloadTarget === 'vice') {
+                if (!await this.viceService.reload(target.outputFile, target.disk?.image)) {
+                    await this.viceService.run(target.outputFile, undefined, target.disk?.image);
+                }
+            } else if (reloadTarget === 'c64u') {
+                await this.c64uService.uploadAndRun(target.outputFile, undefined, target.disk?.image);
+            }
+        } catch (error) {
+            const msg = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Watch mode reload failed: ${msg}`);
+        }
+    }
+
+    private updateStatus(state: 'off' | 'idle' | 'building' | 'success' | 'failed', detail?: string): void {
+        const time = new Date().toLocaleTimeString();
+        switch (state) {
+            case 'off':
+                this.statusBarItem.text = '$(eye-closed) C64 Watch';
+                this.statusBarItem.tooltip = 'Watch mode is off. Click to reassemble on save.';
+                this.statusBarItem.backgroundColor = undefined;
+                break;
+            case 'idle':
+                this.statusBarItem.text = '$(eye) C64 Watch';
+                this.statusBarItem.tooltip = 'Watch mode is on. Click to stop.';
+                this.statusBarItem.backgroundColor = undefined;
+                break;
+            case 'building':
+                this.statusBarItem.text = '$(sync~spin) C64 Watch';
+                this.statusBarItem.tooltip = 'Assembling...';
+                this.statusBarItem.backgroundColor = undefined;
+                break;
+            case 'success':
+                this.statusBarItem.text = '$(check) C64 Watch';
+                this.statusBarItem.tooltip = `Last build succeeded at ${time}: ${detail}. Click to stop watching.`;
+                this.statusBarItem.backgroundColor = undefined;
+                break;
+            case 'failed':
+                this.statusBarItem.text = '$(error) C64 Watch';
+                this.statusBarItem.tooltip = `Last build failed at ${time}. Check Problems panel. Click to stop watching.`;
+                this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+                break;
+        }
+    }
+
+    dispose(): void {
+        this.stop();
+        this.editorListener.dispose();
+        this.statusBarItem.dispose();
+    }
+}